@@ -0,0 +1,177 @@
+import { promises as fsp } from "fs";
+import * as path from "path";
+
+export interface PushTarget {
+	projectName: string;
+	sourcePath: string;
+	targetPath: string;
+}
+
+export interface PushEntry {
+	projectName: string;
+	targetPath: string;
+	// Backup of the overwritten content; null when the push created the file
+	backupPath: string | null;
+}
+
+export interface PushOperation {
+	id: string;
+	timestamp: number;
+	entries: PushEntry[];
+}
+
+const MANIFEST = "manifest.json";
+
+// A push failed and some targets could not be restored; the operation stays undoable
+export class PushRollbackError extends Error {
+	constructor(readonly pushError: unknown) {
+		super(pushError instanceof Error ? pushError.message : String(pushError));
+		this.name = "PushRollbackError";
+	}
+}
+
+async function pathExists(p: string): Promise<boolean> {
+	try {
+		await fsp.access(p);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Applies bulk pushes as single operations and keeps on-disk backups so each can be undone.
+ * Backups live in `<storageDir>/<operation id>/` together with a manifest.
+ */
+export class PushHistory {
+	private operations: PushOperation[] = [];
+	private loaded = false;
+
+	constructor(private storageDir: string, private maxOperations: number = 10) {}
+
+	get canUndo(): boolean {
+		return this.operations.length > 0;
+	}
+
+	/**
+	 * Loads the manifests left by previous sessions, newest last.
+	 */
+	async load(): Promise<void> {
+		if (this.loaded) {
+			return;
+		}
+		this.loaded = true;
+		let dirs: string[] = [];
+		try {
+			dirs = await fsp.readdir(this.storageDir);
+		} catch {
+			return;
+		}
+		const ops: PushOperation[] = [];
+		for (const dir of dirs) {
+			try {
+				const raw = await fsp.readFile(path.join(this.storageDir, dir, MANIFEST), "utf8");
+				ops.push(JSON.parse(raw) as PushOperation);
+			} catch {
+				// Incomplete or foreign directory; ignore
+			}
+		}
+		ops.sort((a, b) => a.timestamp - b.timestamp);
+		this.operations = ops;
+	}
+
+	/**
+	 * Copies every source to its target. Overwritten files are backed up first; if any copy
+	 * fails, the targets already written are restored and the error is rethrown. When restoring
+	 * fails as well, a PushRollbackError is thrown and the push can be undone later.
+	 */
+	async push(targets: PushTarget[]): Promise<PushOperation> {
+		await this.load();
+		const timestamp = Date.now();
+		const id = `${timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+		const opDir = path.join(this.storageDir, id);
+		await fsp.mkdir(opDir, { recursive: true });
+
+		const op: PushOperation = { id, timestamp, entries: [] };
+		try {
+			for (let i = 0; i < targets.length; i++) {
+				const target = targets[i];
+				let backupPath: string | null = null;
+				if (await pathExists(target.targetPath)) {
+					backupPath = path.join(opDir, `${i}.bak`);
+					await fsp.copyFile(target.targetPath, backupPath);
+				} else {
+					await fsp.mkdir(path.dirname(target.targetPath), { recursive: true });
+				}
+				// Recorded before the copy, so that a half-written target is restored too
+				op.entries.push({
+					projectName: target.projectName,
+					targetPath: target.targetPath,
+					backupPath,
+				});
+				await fsp.copyFile(target.sourcePath, target.targetPath);
+			}
+		} catch (err) {
+			try {
+				await this.restore(op);
+			} catch {
+				// Keep the backups as an operation that can still be undone
+				await this.record(op, opDir);
+				throw new PushRollbackError(err);
+			}
+			await fsp.rm(opDir, { recursive: true, force: true });
+			throw err;
+		}
+
+		await this.record(op, opDir);
+		return op;
+	}
+
+	/**
+	 * Reverts the most recent push: restores overwritten files and deletes created ones.
+	 * The operation stays in the history when a file cannot be restored.
+	 */
+	async undoLast(): Promise<PushOperation | null> {
+		await this.load();
+		const op = this.operations[this.operations.length - 1];
+		if (!op) {
+			return null;
+		}
+		await this.restore(op);
+		this.operations.pop();
+		await fsp.rm(path.join(this.storageDir, op.id), { recursive: true, force: true });
+		return op;
+	}
+
+	private async record(op: PushOperation, opDir: string): Promise<void> {
+		await fsp.writeFile(path.join(opDir, MANIFEST), JSON.stringify(op, null, 2), "utf8");
+		this.operations.push(op);
+		await this.trim();
+	}
+
+	// Restores every entry it can, newest first, then rethrows the first failure
+	private async restore(op: PushOperation): Promise<void> {
+		let failure: unknown;
+		for (const entry of [...op.entries].reverse()) {
+			try {
+				if (entry.backupPath) {
+					await fsp.copyFile(entry.backupPath, entry.targetPath);
+				} else {
+					await fsp.rm(entry.targetPath, { force: true });
+				}
+			} catch (err) {
+				failure ??= err;
+			}
+		}
+		if (failure) {
+			throw failure;
+		}
+	}
+
+	private async trim(): Promise<void> {
+		while (this.operations.length > this.maxOperations) {
+			const old = this.operations.shift()!;
+			await fsp.rm(path.join(this.storageDir, old.id), { recursive: true, force: true });
+		}
+	}
+}
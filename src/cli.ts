@@ -0,0 +1,328 @@
+#!/usr/bin/env node
+import { promises as fsp } from "fs";
+import * as path from "path";
+import * as jsonc from "jsonc-parser";
+import { DiffResult, FolderProjectResult } from "./types";
+import {
+	DiffGroup,
+	Project,
+	compareFileAcrossGroup,
+	compareFolderAcrossGroup,
+	createDiffWorkerPool,
+	errorMessage,
+	findMatchingGroup,
+} from "./compare";
+import { DEFAULT_FOLDER_EXCLUDES, getFolderFileStatus } from "./folderDiff";
+import { expandPathVariables, resolveDiffGroups } from "./discovery";
+import { REPO_CONFIG_FILE, loadRepoConfig } from "./repoConfig";
+import { buildReport, renderHtml, renderJson, renderMarkdown, renderText } from "./report";
+
+const USAGE = `Usage: multi-projects-diff [options] [path]
+
+Compares a file or folder with the matching file or folder of every project in its
+diff group. Without a path, the whole group is compared from the reference project's root.
+
+Options:
+  -c, --config <file>      .multiprojectsdiff.json, VS Code settings.json or another config
+                           with "diffGroups" (default: .multiprojectsdiff.json in the current
+                           directory, else .vscode/settings.json)
+  -g, --group <name>       Group to use (default: the group containing the path)
+  -r, --reference <name>   Reference project when no path is given (default: the first one)
+      --ref <revision>     Compare each project's file at this git revision
+  -f, --format <format>    table, json, markdown or html (default: table)
+      --diff               Include unified diffs (json, markdown and html)
+      --max-lines <n>      Changed lines allowed before failing (default: 0)
+      --allow-missing      Do not fail when a project is missing a file
+      --timeout <seconds>  Per-file time limit; 0 disables it (default: 30)
+  -h, --help               Show this help
+
+Exit codes: 0 within the threshold, 1 differences exceed the threshold or a file could not be
+            compared, 2 usage or config error.
+`;
+
+// Errors that should be reported as a usage or configuration problem, without a stack trace
+class CliError extends Error {}
+
+interface CliOptions {
+	target?: string;
+	config?: string;
+	group?: string;
+	reference?: string;
+	ref?: string;
+	format: "table" | "json" | "markdown" | "html";
+	includeDiffs: boolean;
+	maxLines: number;
+	allowMissing: boolean;
+	timeoutSeconds?: number;
+	help: boolean;
+}
+
+interface CliConfig {
+	diffGroups: DiffGroup[];
+	folderExcludes: string[];
+	taskTimeoutSeconds: number;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+	const options: CliOptions = {
+		format: "table",
+		includeDiffs: false,
+		maxLines: 0,
+		allowMissing: false,
+		help: false,
+	};
+	const valueOf = (i: number, flag: string): string => {
+		const value = argv[i + 1];
+		if (value === undefined || value.startsWith("-")) {
+			throw new CliError(`${flag} needs a value`);
+		}
+		return value;
+	};
+	const numberOf = (i: number, flag: string): number => {
+		const value = Number(valueOf(i, flag));
+		if (!Number.isFinite(value) || value < 0) {
+			throw new CliError(`${flag} must be a non-negative number`);
+		}
+		return value;
+	};
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		switch (arg) {
+			case "-c":
+			case "--config":
+				options.config = valueOf(i++, arg);
+				break;
+			case "-g":
+			case "--group":
+				options.group = valueOf(i++, arg);
+				break;
+			case "-r":
+			case "--reference":
+				options.reference = valueOf(i++, arg);
+				break;
+			case "--ref":
+				options.ref = valueOf(i++, arg);
+				break;
+			case "-f":
+			case "--format": {
+				const format = valueOf(i++, arg);
+				if (format !== "table" && format !== "json" && format !== "markdown" && format !== "html") {
+					throw new CliError(`Unknown format "${format}"`);
+				}
+				options.format = format;
+				break;
+			}
+			case "--diff":
+				options.includeDiffs = true;
+				break;
+			case "--max-lines":
+				options.maxLines = numberOf(i++, arg);
+				break;
+			case "--allow-missing":
+				options.allowMissing = true;
+				break;
+			case "--timeout":
+				options.timeoutSeconds = numberOf(i++, arg);
+				break;
+			case "-h":
+			case "--help":
+				options.help = true;
+				break;
+			default:
+				if (arg.startsWith("-") || options.target !== undefined) {
+					throw new CliError(`Unexpected argument "${arg}"`);
+				}
+				options.target = arg;
+		}
+	}
+	return options;
+}
+
+/**
+ * Reads `diffGroups` from a VS Code settings file ("multiProjectsDiff.*" keys) or a standalone
+ * config (plain keys), expanding discovery rules. Relative project paths are resolved against
+ * the config file's folder.
+ */
+async function loadConfig(configPath: string): Promise<CliConfig> {
+	let text: string;
+	try {
+		text = await fsp.readFile(configPath, "utf8");
+	} catch {
+		throw new CliError(`Cannot read config file ${configPath}`);
+	}
+	const errors: jsonc.ParseError[] = [];
+	const data = jsonc.parse(text, errors, { allowTrailingComma: true });
+	if (errors.length > 0 || typeof data !== "object" || data === null) {
+		throw new CliError(`${configPath} is not valid JSON`);
+	}
+	const setting = <T>(key: string): T | undefined =>
+		data[`multiProjectsDiff.${key}`] ?? data[key];
+
+	let diffGroups = setting<DiffGroup[]>("diffGroups");
+	if (path.basename(configPath) === REPO_CONFIG_FILE) {
+		// Repository configs are validated as in the editor; invalid groups are skipped
+		const repoConfig = await loadRepoConfig(path.resolve(configPath));
+		for (const problem of repoConfig?.problems ?? []) {
+			process.stderr.write(
+				`${configPath}:${problem.start.line + 1}:${problem.start.character + 1}: ` +
+					`${problem.severity}: ${problem.message}\n`
+			);
+		}
+		diffGroups = repoConfig?.groups;
+	} else if (Array.isArray(diffGroups)) {
+		for (const group of diffGroups) {
+			if (!group?.name || !(Array.isArray(group.workspaces) || Array.isArray(group.discover))) {
+				throw new CliError(`Every diff group needs a name and workspaces or discover rules (${configPath})`);
+			}
+		}
+		diffGroups = await resolveDiffGroups(diffGroups, { baseDir: path.dirname(path.resolve(configPath)) });
+	}
+	if (!Array.isArray(diffGroups) || diffGroups.length === 0) {
+		throw new CliError(`No diffGroups found in ${configPath}`);
+	}
+	return {
+		diffGroups,
+		folderExcludes: setting<string[]>("folderExcludes") ?? DEFAULT_FOLDER_EXCLUDES,
+		taskTimeoutSeconds: setting<number>("taskTimeoutSeconds") ?? 30,
+	};
+}
+
+async function fileExists(p: string): Promise<boolean> {
+	try {
+		await fsp.access(p);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function isDirectory(p: string): Promise<boolean> {
+	try {
+		return (await fsp.stat(p)).isDirectory();
+	} catch {
+		throw new CliError(`${p} does not exist`);
+	}
+}
+
+async function run(argv: string[]): Promise<number> {
+	const options = parseArgs(argv);
+	if (options.help) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+	let configPath = options.config;
+	if (!configPath) {
+		const repoConfigPath = path.join(process.cwd(), REPO_CONFIG_FILE);
+		configPath = (await fileExists(repoConfigPath))
+			? repoConfigPath
+			: path.join(process.cwd(), ".vscode", "settings.json");
+	}
+	const config = await loadConfig(configPath);
+
+	const chosenGroup = options.group
+		? config.diffGroups.find((g) => g.name === options.group)
+		: undefined;
+	if (options.group && !chosenGroup) {
+		throw new CliError(`No diff group named "${options.group}"`);
+	}
+
+	let group: DiffGroup | undefined;
+	let referenceProject: Project | undefined;
+	let referencePath: string;
+	if (options.target) {
+		referencePath = path.resolve(expandPathVariables(options.target));
+		({ matchingGroup: group, matchingProject: referenceProject } = findMatchingGroup(
+			referencePath,
+			config.diffGroups,
+			chosenGroup
+		));
+		if (!group || !referenceProject) {
+			throw new CliError(`${referencePath} is not inside a project of ${options.group ? `group "${options.group}"` : "any diff group"}`);
+		}
+	} else {
+		group = chosenGroup ?? config.diffGroups[0];
+		referenceProject = options.reference
+			? group.workspaces.find((ws) => ws.name === options.reference)
+			: group.workspaces[0];
+		if (!referenceProject) {
+			throw new CliError(`No project named "${options.reference}" in group "${group.name}"`);
+		}
+		referencePath = referenceProject.path;
+	}
+	const mode = (await isDirectory(referencePath)) ? "folder" : "file";
+
+	const timeoutSeconds = options.timeoutSeconds ?? config.taskTimeoutSeconds;
+	const compareOptions = {
+		compareRef: options.ref,
+		excludes: config.folderExcludes,
+		run: { timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined },
+	};
+	const pool = createDiffWorkerPool();
+	let results: DiffResult[] = [];
+	let folderResults: FolderProjectResult[] | null = null;
+	try {
+		if (mode === "folder") {
+			folderResults = await compareFolderAcrossGroup(pool, group, referenceProject, referencePath, compareOptions);
+		} else {
+			results = await compareFileAcrossGroup(pool, group, referenceProject, referencePath, compareOptions);
+		}
+	} finally {
+		await pool.close();
+	}
+
+	const report = await buildReport({
+		mode,
+		groupName: group.name,
+		referenceProject: referenceProject.name,
+		referencePath,
+		compareRef: options.ref,
+		results,
+		folderResults,
+		includeDiffs: options.includeDiffs,
+	});
+	const render = {
+		table: renderText,
+		json: renderJson,
+		markdown: renderMarkdown,
+		html: renderHtml,
+	}[options.format];
+	process.stdout.write(render(report));
+
+	let changedLines = 0;
+	let missing = 0;
+	let errors = 0;
+	for (const res of folderResults ? folderResults.flatMap((f) => f.files) : results) {
+		const status = getFolderFileStatus(res);
+		if (status === "differs") {
+			changedLines += res.diffLineCount;
+		} else if (status === "missing") {
+			missing++;
+		} else if (status === "error") {
+			errors++;
+		}
+	}
+	// Files that could not be compared are not known to be in sync
+	const failed = changedLines > options.maxLines || (missing > 0 && !options.allowMissing) || errors > 0;
+	if (failed) {
+		process.stderr.write(
+			`Drift detected: ${changedLines} changed line(s) (allowed ${options.maxLines}), ${missing} missing file(s)` +
+				(errors > 0 ? `, ${errors} file(s) could not be compared` : "") +
+				".\n"
+		);
+	}
+	return failed ? 1 : 0;
+}
+
+run(process.argv.slice(2)).then(
+	(code) => {
+		process.exitCode = code;
+	},
+	(err) => {
+		if (err instanceof CliError) {
+			process.stderr.write(`multi-projects-diff: ${err.message}\nRun with --help for usage.\n`);
+		} else {
+			process.stderr.write(`multi-projects-diff: ${errorMessage(err)}\n`);
+		}
+		process.exitCode = 2;
+	}
+);
@@ -0,0 +1,380 @@
+import { promises as fsp } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DiffAlgorithm, DiffResult, DiffTaskParams, FolderProjectResult } from "./types";
+import { RunOptions, WorkerPool } from "./workerPool";
+import { NormalizationRule, resolveNormalization } from "./normalization";
+import { PathMappings, mapRelativePath } from "./pathMapping";
+import { DEFAULT_FOLDER_EXCLUDES, listFilesRecursive } from "./folderDiff";
+import { listFilesAtRef } from "./git";
+import { DiscoveryRule } from "./discovery";
+import { isSameOrInside, isSamePath } from "./fileUtils";
+
+// Comparison logic shared by the extension and the command line; nothing here depends on vscode
+
+export interface DiffGroup {
+	name: string;
+	ignoreWhiteSpace: boolean;
+	// Compare JSON/YAML files key by key instead of line by line
+	structuredDiff?: boolean;
+	// Extra normalization (blank lines, case, comments, patterns) per file glob
+	normalization?: NormalizationRule[];
+	// Files larger than this are diffed in large-file mode; 0 disables it
+	largeFileThresholdMB?: number;
+	// Line diff algorithm; Myers when omitted
+	diffAlgorithm?: DiffAlgorithm;
+	// Badge this group's files in the Explorer with how many projects differ
+	decorations?: boolean;
+	// Rules that add projects found on disk to `workspaces`; see resolveGroupProjects()
+	discover?: DiscoveryRule[];
+	workspaces: Array<Project>;
+}
+
+export interface Project {
+	name: string;
+	path: string;
+	pathMappings?: PathMappings;
+}
+
+export type MatchingGroup = DiffGroup | undefined | null;
+
+const DEFAULT_LARGE_FILE_THRESHOLD_MB = 2;
+
+export function largeFileBytesOf(group: DiffGroup): number {
+	const mb = group.largeFileThresholdMB ?? DEFAULT_LARGE_FILE_THRESHOLD_MB;
+	return Math.max(0, mb) * 1024 * 1024;
+}
+
+/**
+ * Finds the group and project that contain the given path.
+ * When a group is chosen explicitly only that group's projects are searched.
+ */
+export function findMatchingGroup(
+	fsPath: string,
+	diffGroups: DiffGroup[],
+	chosenGroup?: DiffGroup
+): { matchingGroup?: DiffGroup; matchingProject?: Project } {
+	const candidates = chosenGroup ? [chosenGroup] : diffGroups;
+	for (const group of candidates) {
+		for (const workspace of group.workspaces) {
+			if (isSameOrInside(fsPath, workspace.path)) {
+				return { matchingGroup: group, matchingProject: workspace };
+			}
+		}
+	}
+	return { matchingGroup: chosenGroup };
+}
+
+export interface GroupMatch {
+	group: DiffGroup;
+	project: Project;
+}
+
+/**
+ * Every group with a project containing the given path, in settings order, e.g. a library
+ * listed both in a "frontend" and a "shared-libs" group.
+ */
+export function findMatchingGroups(fsPath: string, diffGroups: DiffGroup[]): GroupMatch[] {
+	const matches: GroupMatch[] = [];
+	for (const group of diffGroups) {
+		const { matchingProject } = findMatchingGroup(fsPath, diffGroups, group);
+		if (matchingProject) {
+			matches.push({ group, project: matchingProject });
+		}
+	}
+	return matches;
+}
+
+/**
+ * Project folders of the groups that were added, removed or changed between two reads of the
+ * settings; cached results for files under them are stale.
+ */
+export function changedGroupRoots(before: DiffGroup[], after: DiffGroup[]): string[] {
+	const keyOf = (group: DiffGroup | undefined) => JSON.stringify(group ?? null);
+	return [...before, ...after]
+		.filter((g) => keyOf(before.find((b) => b.name === g.name)) !== keyOf(after.find((a) => a.name === g.name)))
+		.flatMap((g) => g.workspaces.map((ws) => ws.path));
+}
+
+// Worker parameters that come from the group's settings
+export function groupTaskParams(
+	group: DiffGroup
+): Pick<DiffTaskParams, "ignoreWhiteSpace" | "structuredDiff" | "largeFileBytes" | "algorithm"> {
+	return {
+		ignoreWhiteSpace: group.ignoreWhiteSpace,
+		structuredDiff: !!group.structuredDiff,
+		largeFileBytes: largeFileBytesOf(group),
+		algorithm: group.diffAlgorithm,
+	};
+}
+
+export function createDiffWorkerPool(size?: number): WorkerPool<DiffTaskParams, DiffResult> {
+	const poolSize = size ?? Math.min(Math.max(1, os.cpus().length - 1), 6);
+	return new WorkerPool<DiffTaskParams, DiffResult>(path.join(__dirname, "diffWorker.js"), poolSize);
+}
+
+/**
+ * Lists a target folder for a folder comparison: at the git ref when one is given and can be
+ * read, else its working tree.
+ */
+export async function listTargetFolder(
+	targetFolder: string,
+	excludes: string[],
+	compareRef?: string
+): Promise<{ folderExists: boolean; files: string[] }> {
+	let folderExists = false;
+	try {
+		folderExists = (await fsp.stat(targetFolder)).isDirectory();
+	} catch {}
+	const filesAtRef = compareRef ? await listFilesAtRef(targetFolder, compareRef) : null;
+	if (filesAtRef) {
+		const excluded = new Set(excludes);
+		const files = filesAtRef.filter(
+			(rel) => !rel.split(/[\\/]/).some((seg) => excluded.has(seg))
+		);
+		return { folderExists: files.length > 0, files };
+	}
+	return {
+		folderExists,
+		files: folderExists ? await listFilesRecursive(targetFolder, excludes) : [],
+	};
+}
+
+// Placeholder result for a file that exists in the target folder but not in the reference folder
+export function onlyInTargetResult(
+	project: Project,
+	targetFolder: string,
+	referenceFolder: string,
+	rel: string,
+	compareRef?: string
+): DiffResult {
+	return {
+		projectName: project.name,
+		diffLineCount: 0,
+		diffDetail: { added: 0, removed: 0 },
+		compareFilePath: path.join(targetFolder, rel),
+		fileExists: true,
+		compareWorkspaceFilePath: project.path,
+		baseFilePath: path.join(referenceFolder, rel),
+		relativePath: rel,
+		onlyInTarget: true,
+		...(compareRef ? { compareRef } : {}),
+	};
+}
+
+/**
+ * Results kept between runs, e.g. the extension's memory and disk caches. Only consulted when
+ * comparing working trees; `set` is called with the task object an earlier `get` missed on.
+ */
+export interface CompareCache {
+	get(task: DiffTaskParams): Promise<DiffResult | null>;
+	set(task: DiffTaskParams, result: DiffResult): void;
+}
+
+export interface CompareOptions {
+	compareRef?: string;
+	// Folder comparisons skip directories with these names
+	excludes?: string[];
+	run?: RunOptions;
+	cache?: CompareCache;
+	// File comparisons: the reference's content and md5, read once instead of by every worker
+	baseContent?: string;
+	baseContentHash?: string;
+	// Content of the target, e.g. an unsaved editor; for comparisons with a single target only
+	compareContent?: string;
+	// Called with each compared file's result as soon as it is known
+	onResult?: (result: DiffResult) => void;
+	// Called for each comparison that failed; the result gets an error row instead
+	onError?: (project: Project, err: unknown) => void;
+}
+
+// Worker rejections are not always Error instances
+export function errorMessage(err: unknown): string {
+	if (err instanceof Error) {
+		return err.message;
+	}
+	const message = (err as { message?: unknown } | null)?.message;
+	return typeof message === "string" ? message : String(err);
+}
+
+// Placeholder result for a comparison that failed, so one unreadable file does not fail the run
+export function errorResult(
+	project: Project,
+	compareFilePath: string,
+	err: unknown,
+	extra: Partial<DiffResult> = {}
+): DiffResult {
+	return {
+		projectName: project.name,
+		diffLineCount: 0,
+		diffDetail: { added: 0, removed: 0 },
+		compareFilePath,
+		fileExists: true,
+		compareWorkspaceFilePath: project.path,
+		...extra,
+		error: errorMessage(err),
+	};
+}
+
+async function runTask(
+	pool: WorkerPool<DiffTaskParams, DiffResult>,
+	task: DiffTaskParams,
+	options: CompareOptions
+): Promise<DiffResult> {
+	// Cache keys describe files on disk, not a git revision or unsaved content
+	const cache = task.compareRef || task.compareContent !== undefined ? undefined : options.cache;
+	const cached = await cache?.get(task);
+	if (cached) {
+		return cached;
+	}
+	const res = await pool.run(task, options.run);
+	cache?.set(task, res);
+	return res;
+}
+
+/**
+ * Compares a reference file with the matching file of every other project in the group.
+ * The reference's own project is left out.
+ */
+export async function compareFileAcrossGroup(
+	pool: WorkerPool<DiffTaskParams, DiffResult>,
+	group: DiffGroup,
+	referenceProject: Project,
+	referenceFilePath: string,
+	options: CompareOptions = {}
+): Promise<DiffResult[]> {
+	const relativePath = path.relative(referenceProject.path, referenceFilePath);
+	const normalization = resolveNormalization(group.normalization, relativePath);
+	const targets = group.workspaces
+		.map((ws) => {
+			const compareRelativePath = mapRelativePath(relativePath, referenceProject, ws);
+			return { ws, compareRelativePath, comparePath: path.join(ws.path, compareRelativePath) };
+		})
+		.filter((t) => !isSamePath(t.comparePath, referenceFilePath));
+	const settled = await Promise.allSettled(
+		targets.map(async ({ ws, compareRelativePath, comparePath }) => {
+			const res = await runTask(pool, {
+				currentFilePath: referenceFilePath,
+				compareWorkspaceFilePath: ws.path,
+				compareRelativeFilePath: compareRelativePath,
+				compareWorkspaceName: ws.name,
+				...groupTaskParams(group),
+				normalization,
+				baseContent: options.baseContent,
+				baseContentHash: options.baseContentHash,
+				compareContent: options.compareContent,
+				compareRef: options.compareRef,
+			}, options);
+			const result: DiffResult = {
+				...res,
+				projectName: ws.name,
+				compareFilePath: comparePath,
+				compareWorkspaceFilePath: ws.path,
+			};
+			options.onResult?.(result);
+			return result;
+		})
+	);
+	return settled.map((s, i) => {
+		if (s.status === "fulfilled") {
+			return s.value;
+		}
+		const { ws, comparePath } = targets[i];
+		options.onError?.(ws, s.reason);
+		return errorResult(ws, comparePath, s.reason, options.compareRef ? { compareRef: options.compareRef } : {});
+	});
+}
+
+/**
+ * Compares one file of a folder comparison: `rel` below the reference folder with `rel` below
+ * the target project's matching folder. A failed comparison becomes an error row.
+ */
+export async function compareFolderFile(
+	pool: WorkerPool<DiffTaskParams, DiffResult>,
+	group: DiffGroup,
+	referenceProject: Project,
+	referenceFolderPath: string,
+	target: { ws: Project; folder: string },
+	rel: string,
+	options: CompareOptions = {}
+): Promise<DiffResult> {
+	const { ws, folder } = target;
+	const relativeFolder = path.relative(referenceProject.path, referenceFolderPath);
+	const rowPaths = {
+		baseFilePath: path.join(referenceFolderPath, rel),
+		relativePath: rel,
+	};
+	try {
+		const res = await runTask(pool, {
+			currentFilePath: rowPaths.baseFilePath,
+			compareWorkspaceFilePath: folder,
+			compareRelativeFilePath: rel,
+			compareWorkspaceName: ws.name,
+			...groupTaskParams(group),
+			normalization: resolveNormalization(group.normalization, path.join(relativeFolder, rel)),
+			baseContent: options.baseContent,
+			compareContent: options.compareContent,
+			compareRef: options.compareRef,
+		}, options);
+		const result: DiffResult = {
+			...res,
+			projectName: ws.name,
+			compareFilePath: path.join(folder, rel),
+			compareWorkspaceFilePath: ws.path,
+			...rowPaths,
+		};
+		options.onResult?.(result);
+		return result;
+	} catch (err) {
+		options.onError?.(ws, err);
+		return errorResult(ws, path.join(folder, rel), err, {
+			...rowPaths,
+			...(options.compareRef ? { compareRef: options.compareRef } : {}),
+		});
+	}
+}
+
+/**
+ * Compares every file below a reference folder with the matching folder of every other project.
+ */
+export async function compareFolderAcrossGroup(
+	pool: WorkerPool<DiffTaskParams, DiffResult>,
+	group: DiffGroup,
+	referenceProject: Project,
+	referenceFolderPath: string,
+	options: CompareOptions = {}
+): Promise<FolderProjectResult[]> {
+	const excludes = options.excludes ?? DEFAULT_FOLDER_EXCLUDES;
+	const relativeFolder = path.relative(referenceProject.path, referenceFolderPath);
+	const referenceFiles = await listFilesRecursive(referenceFolderPath, excludes);
+	const referenceSet = new Set(referenceFiles);
+	// Preloaded contents describe a single file
+	const fileOptions = { ...options, baseContent: undefined, baseContentHash: undefined, compareContent: undefined };
+	const targets = group.workspaces
+		.map((ws) => ({ ws, folder: path.join(ws.path, mapRelativePath(relativeFolder, referenceProject, ws)) }))
+		.filter((t) => !isSamePath(t.folder, referenceFolderPath));
+
+	return Promise.all(
+		targets.map(async (target): Promise<FolderProjectResult> => {
+			const { ws, folder } = target;
+			const listing = await listTargetFolder(folder, excludes, options.compareRef);
+			const files = await Promise.all(
+				referenceFiles.map((rel) =>
+					compareFolderFile(pool, group, referenceProject, referenceFolderPath, target, rel, fileOptions)
+				)
+			);
+			for (const rel of listing.files) {
+				if (!referenceSet.has(rel)) {
+					files.push(onlyInTargetResult(ws, folder, referenceFolderPath, rel, options.compareRef));
+				}
+			}
+			return {
+				projectName: ws.name,
+				compareWorkspaceFilePath: ws.path,
+				compareFolderPath: folder,
+				folderExists: listing.folderExists,
+				files,
+			};
+		})
+	);
+}
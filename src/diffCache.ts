@@ -1,5 +1,7 @@
 import * as os from "os";
-import { DiffResult } from "./types";
+import { DiffAlgorithm, DiffResult } from "./types";
+import { invertStructuredDiff } from "./structuredDiff";
+import { invertChangeStats } from "./diffEngine";
 
 export interface DiffCacheKeyParts {
 	basePath: string;
@@ -7,6 +9,10 @@ export interface DiffCacheKeyParts {
 	comparePath: string;
 	compareMtimeMs: number; // -1 when missing
 	ignoreWhitespace: boolean;
+	structuredDiff: boolean;
+	normalization: string; // see normalizationKey()
+	largeFileBytes: number; // size above which files are diffed in bounded (large-file) mode
+	algorithm: DiffAlgorithm;
 }
 
 interface CacheEntry {
@@ -23,11 +29,21 @@ function normPath(p: string): string {
 	return isCaseInsensitiveFs() ? p.toLowerCase() : p;
 }
 
+/**
+ * The comparison options of a key, without paths or mtimes. Also keys the persistent cache.
+ */
+export function makeOptionsKey(
+	parts: Pick<DiffCacheKeyParts, "ignoreWhitespace" | "structuredDiff" | "normalization" | "largeFileBytes" | "algorithm">
+): string {
+	const iw = parts.ignoreWhitespace ? 1 : 0;
+	const sd = parts.structuredDiff ? 1 : 0;
+	return `iw:${iw}|sd:${sd}|n:${parts.normalization}|lf:${parts.largeFileBytes}|a:${parts.algorithm}`;
+}
+
 export function makeCacheKey(parts: DiffCacheKeyParts): string {
 	const b = normPath(parts.basePath);
 	const c = normPath(parts.comparePath);
-	const iw = parts.ignoreWhitespace ? 1 : 0;
-	return `v1|iw:${iw}|b:${b}|bm:${parts.baseMtimeMs}|c:${c}|cm:${parts.compareMtimeMs}`;
+	return `v1|${makeOptionsKey(parts)}|b:${b}|bm:${parts.baseMtimeMs}|c:${c}|cm:${parts.compareMtimeMs}`;
 }
 
 function makeReversedKey(parts: DiffCacheKeyParts): string {
@@ -37,6 +53,10 @@ function makeReversedKey(parts: DiffCacheKeyParts): string {
 		comparePath: parts.basePath,
 		compareMtimeMs: parts.baseMtimeMs,
 		ignoreWhitespace: parts.ignoreWhitespace,
+		structuredDiff: parts.structuredDiff,
+		normalization: parts.normalization,
+		largeFileBytes: parts.largeFileBytes,
+		algorithm: parts.algorithm,
 	});
 }
 
@@ -70,6 +90,21 @@ export class DiffCache {
 				compareFilePath: parts.comparePath,
 				fileExists: r.fileExists,
 				compareWorkspaceFilePath: r.compareWorkspaceFilePath,
+				contentHash: r.baseContentHash,
+				baseContentHash: r.contentHash,
+				structured: r.structured ? invertStructuredDiff(r.structured) : undefined,
+				approximate: r.approximate,
+				algorithm: r.algorithm,
+				stats: r.stats ? invertChangeStats(r.stats) : undefined,
+				// The reversed target is the cached base, whose mtime is part of the key
+				binary: r.binary
+					? {
+							size: r.binary.baseSize,
+							baseSize: r.binary.size,
+							mtimeMs: entry.parts.baseMtimeMs >= 0 ? entry.parts.baseMtimeMs : undefined,
+							identical: r.binary.identical,
+					  }
+					: undefined,
 			};
 		}
 		return null;
@@ -82,6 +117,22 @@ export class DiffCache {
 		this.evictIfNeeded();
 	}
 
+	// Drops the entries whose key parts match, e.g. results for files of a reconfigured group
+	invalidate(predicate: (parts: DiffCacheKeyParts) => boolean): number {
+		let removed = 0;
+		for (const [key, entry] of this.map) {
+			if (predicate(entry.parts)) {
+				this.map.delete(key);
+				removed++;
+			}
+		}
+		return removed;
+	}
+
+	clear(): void {
+		this.map.clear();
+	}
+
 	private evictIfNeeded() {
 		while (this.map.size > this.maxEntries) {
 			const firstKey = this.map.keys().next().value as string | undefined;
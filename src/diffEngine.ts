@@ -0,0 +1,472 @@
+import { ChangeStats, DiffAlgorithm, DiffCounts } from "./types";
+import { DEFAULT_NORMALIZATION, NormalizationOptions, normalizeLines } from "./normalization";
+
+// ---- Exact diff (counts-only) utilities ----
+
+export function normalizeEol(text: string): string {
+  // Normalize CRLF/CR to LF for consistent line splitting
+  return text.replace(/\r\n?|\u2028|\u2029/g, "\n");
+}
+
+function trimCommonPrefixSuffix(
+  a: string[],
+  b: string[]
+): { aStart: number; aEnd: number; bStart: number; bEnd: number } {
+  let aStart = 0;
+  let bStart = 0;
+  const aLen = a.length;
+  const bLen = b.length;
+  // Prefix
+  while (aStart < aLen && bStart < bLen && a[aStart] === b[bStart]) {
+    aStart++;
+    bStart++;
+  }
+  // Suffix
+  let aEnd = aLen - 1;
+  let bEnd = bLen - 1;
+  while (aEnd >= aStart && bEnd >= bStart && a[aEnd] === b[bEnd]) {
+    aEnd--;
+    bEnd--;
+  }
+  return { aStart, aEnd, bStart, bEnd };
+}
+
+function tokenizePair(
+  aLines: string[],
+  bLines: string[]
+): { aTok: Int32Array; bTok: Int32Array; tokenCount: number } {
+  // Use a shared dictionary so identical line strings get identical IDs across both arrays
+  const dict = new Map<string, number>();
+  let nextId = 1;
+  const aTok = new Int32Array(aLines.length);
+  const bTok = new Int32Array(bLines.length);
+  for (let i = 0; i < aLines.length; i++) {
+    const s = aLines[i];
+    let id = dict.get(s);
+    if (id === undefined) {
+      id = nextId++;
+      dict.set(s, id);
+    }
+    aTok[i] = id;
+  }
+  for (let i = 0; i < bLines.length; i++) {
+    const s = bLines[i];
+    let id = dict.get(s);
+    if (id === undefined) {
+      id = nextId++;
+      dict.set(s, id);
+    }
+    bTok[i] = id;
+  }
+  return { aTok, bTok, tokenCount: nextId };
+}
+
+function myersEditDistance(a: Int32Array, b: Int32Array, maxD: number = Infinity): number {
+  // Compute minimal edit distance (insertions+deletions) using Myers O(ND)
+  // Returns -1 once the distance is known to exceed maxD
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) {
+    return m <= maxD ? m : -1;
+  }
+  if (m === 0) {
+    return n <= maxD ? n : -1;
+  }
+  const max = Math.min(n + m, maxD);
+  const v = new Int32Array(2 * max + 1);
+  const offset = max;
+  v[offset + 1] = 0;
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return d;
+      }
+    }
+  }
+  return max === n + m ? max : -1;
+}
+
+// Counts lines without a counterpart on the other side, ignoring order.
+// Moved lines are not counted, so this can only under-estimate the real diff.
+function unorderedDiffCounts(aTok: Int32Array, bTok: Int32Array, tokenCount: number): DiffCounts {
+  const balance = new Int32Array(tokenCount);
+  for (let i = 0; i < aTok.length; i++) {
+    balance[aTok[i]]++;
+  }
+  for (let i = 0; i < bTok.length; i++) {
+    balance[bTok[i]]--;
+  }
+  let removed = 0;
+  let added = 0;
+  for (let t = 0; t < tokenCount; t++) {
+    if (balance[t] > 0) {
+      removed += balance[t];
+    } else {
+      added -= balance[t];
+    }
+  }
+  return { added, removed };
+}
+
+// ---- Patience and histogram diff ----
+// Both only decide which lines match; the counts follow as (lines - matched lines) per side.
+// Regions they cannot split further are handed to Myers.
+
+interface Region {
+  aLo: number;
+  aHi: number; // exclusive
+  bLo: number;
+  bHi: number; // exclusive
+}
+
+// Matched lines in a region according to minimal Myers
+function myersMatches(a: Int32Array, b: Int32Array, r: Region): number {
+  const n = r.aHi - r.aLo;
+  const m = r.bHi - r.bLo;
+  const d = myersEditDistance(a.subarray(r.aLo, r.aHi), b.subarray(r.bLo, r.bHi));
+  return (n + m - d) >> 1;
+}
+
+// Strips equal lines from both ends of a region, returning how many were stripped
+function trimRegion(a: Int32Array, b: Int32Array, r: Region): number {
+  let matched = 0;
+  while (r.aLo < r.aHi && r.bLo < r.bHi && a[r.aLo] === b[r.bLo]) {
+    r.aLo++;
+    r.bLo++;
+    matched++;
+  }
+  while (r.aLo < r.aHi && r.bLo < r.bHi && a[r.aHi - 1] === b[r.bHi - 1]) {
+    r.aHi--;
+    r.bHi--;
+    matched++;
+  }
+  return matched;
+}
+
+/**
+ * Patience diff: lines that occur exactly once on each side anchor the alignment
+ * (their longest increasing subsequence), and the gaps between anchors are diffed recursively.
+ */
+function patienceAnchors(a: Int32Array, b: Int32Array, r: Region): Array<[number, number]> {
+  // token -> [count in a, index in a, count in b, index in b]
+  const seen = new Map<number, [number, number, number, number]>();
+  for (let i = r.aLo; i < r.aHi; i++) {
+    const e = seen.get(a[i]);
+    if (e) {
+      e[0]++;
+    } else {
+      seen.set(a[i], [1, i, 0, -1]);
+    }
+  }
+  for (let j = r.bLo; j < r.bHi; j++) {
+    const e = seen.get(b[j]);
+    if (e) {
+      e[2]++;
+      e[3] = j;
+    }
+  }
+  const unique: Array<[number, number]> = [];
+  for (const [aCount, ai, bCount, bj] of seen.values()) {
+    if (aCount === 1 && bCount === 1) {
+      unique.push([ai, bj]);
+    }
+  }
+  unique.sort((x, y) => x[0] - y[0]);
+
+  // Longest increasing subsequence of b indices, by patience sorting
+  const tails: number[] = []; // index into `unique` of the smallest tail for each length
+  const prev = new Int32Array(unique.length).fill(-1);
+  for (let k = 0; k < unique.length; k++) {
+    const bj = unique[k][1];
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (unique[tails[mid]][1] < bj) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    prev[k] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = k;
+  }
+  const anchors: Array<[number, number]> = [];
+  for (let k = tails.length > 0 ? tails[tails.length - 1] : -1; k >= 0; k = prev[k]) {
+    anchors.push(unique[k]);
+  }
+  return anchors.reverse();
+}
+
+// Occurrence counts above this are not used as histogram anchors (as in git)
+const HISTOGRAM_MAX_CHAIN = 64;
+
+/**
+ * Histogram diff: anchors on the rarest line common to both sides, extends the match around it,
+ * and recurses on either side. Repeated lines such as braces are avoided as anchors.
+ */
+function histogramAnchor(a: Int32Array, b: Int32Array, r: Region): Region | null {
+  const positions = new Map<number, number[]>();
+  for (let i = r.aLo; i < r.aHi; i++) {
+    const list = positions.get(a[i]);
+    if (list) {
+      list.push(i);
+    } else {
+      positions.set(a[i], [i]);
+    }
+  }
+  let best: Region | null = null;
+  let bestCount = HISTOGRAM_MAX_CHAIN + 1;
+  for (let j = r.bLo; j < r.bHi; ) {
+    const list = positions.get(b[j]);
+    if (!list || list.length > bestCount) {
+      j++;
+      continue;
+    }
+    // Lines inside a match found here need not be tried again as starting points
+    let next = j + 1;
+    for (const i of list) {
+      // Extend the match around (i, j) within the region
+      let aLo = i;
+      let bLo = j;
+      while (aLo > r.aLo && bLo > r.bLo && a[aLo - 1] === b[bLo - 1]) {
+        aLo--;
+        bLo--;
+      }
+      let aHi = i + 1;
+      let bHi = j + 1;
+      while (aHi < r.aHi && bHi < r.bHi && a[aHi] === b[bHi]) {
+        aHi++;
+        bHi++;
+      }
+      next = Math.max(next, bHi);
+      if (list.length < bestCount || (best && aHi - aLo > best.aHi - best.aLo)) {
+        best = { aLo, aHi, bLo, bHi };
+        bestCount = list.length;
+      }
+    }
+    j = next;
+  }
+  return best;
+}
+
+function anchoredMatches(
+  a: Int32Array,
+  b: Int32Array,
+  algorithm: "patience" | "histogram"
+): number {
+  let matched = 0;
+  const stack: Region[] = [{ aLo: 0, aHi: a.length, bLo: 0, bHi: b.length }];
+  while (stack.length > 0) {
+    const r = stack.pop()!;
+    matched += trimRegion(a, b, r);
+    if (r.aLo === r.aHi || r.bLo === r.bHi) {
+      continue;
+    }
+    if (algorithm === "patience") {
+      const anchors = patienceAnchors(a, b, r);
+      if (anchors.length === 0) {
+        matched += myersMatches(a, b, r);
+        continue;
+      }
+      let aLo = r.aLo;
+      let bLo = r.bLo;
+      for (const [ai, bj] of anchors) {
+        stack.push({ aLo, aHi: ai, bLo, bHi: bj });
+        matched++;
+        aLo = ai + 1;
+        bLo = bj + 1;
+      }
+      stack.push({ aLo, aHi: r.aHi, bLo, bHi: r.bHi });
+    } else {
+      const anchor = histogramAnchor(a, b, r);
+      if (!anchor) {
+        matched += myersMatches(a, b, r);
+        continue;
+      }
+      matched += anchor.aHi - anchor.aLo;
+      stack.push({ aLo: r.aLo, aHi: anchor.aLo, bLo: r.bLo, bHi: anchor.bLo });
+      stack.push({ aLo: anchor.aHi, aHi: r.aHi, bLo: anchor.bHi, bHi: r.bHi });
+    }
+  }
+  return matched;
+}
+
+export interface BoundedDiffCounts extends DiffCounts {
+  // The exact diff was too expensive and the counts were estimated
+  approximate: boolean;
+}
+
+// Upper bound on (lines compared) x (edit distance) for bounded diffs, roughly a second of work
+export const LARGE_FILE_DIFF_BUDGET = 50_000_000;
+
+export function computeDiffCounts(
+  baseText: string,
+  compareText: string,
+  ignoreWhiteSpace: boolean,
+  filePath: string = "",
+  normalization: NormalizationOptions = DEFAULT_NORMALIZATION,
+  algorithm: DiffAlgorithm = "myers"
+): DiffCounts {
+  const { added, removed } = diffCounts(
+    baseText, compareText, ignoreWhiteSpace, filePath, normalization, Infinity, algorithm
+  );
+  return { added, removed };
+}
+
+/**
+ * Like computeDiffCounts, but gives up on the exact diff once it would cost more than `budget`
+ * and falls back to an order-insensitive estimate. Memory stays linear in the file sizes.
+ * Always uses Myers, the only algorithm whose cost can be bounded this way.
+ */
+export function computeBoundedDiffCounts(
+  baseText: string,
+  compareText: string,
+  ignoreWhiteSpace: boolean,
+  filePath: string = "",
+  normalization: NormalizationOptions = DEFAULT_NORMALIZATION,
+  budget: number = LARGE_FILE_DIFF_BUDGET
+): BoundedDiffCounts {
+  return diffCounts(baseText, compareText, ignoreWhiteSpace, filePath, normalization, budget);
+}
+
+function diffCounts(
+  baseText: string,
+  compareText: string,
+  ignoreWhiteSpace: boolean,
+  filePath: string,
+  normalization: NormalizationOptions,
+  budget: number = Infinity,
+  algorithm: DiffAlgorithm = "myers"
+): BoundedDiffCounts {
+  // Normalize line endings, then apply whitespace, comment, pattern, case and blank-line rules
+  const aNorm = normalizeLines(normalizeEol(baseText), filePath, ignoreWhiteSpace, normalization);
+  const bNorm = normalizeLines(normalizeEol(compareText), filePath, ignoreWhiteSpace, normalization);
+
+  // Trim common prefixes/suffixes
+  const { aStart, aEnd, bStart, bEnd } = trimCommonPrefixSuffix(aNorm, bNorm);
+  const aSlice = aNorm.slice(aStart, aEnd + 1);
+  const bSlice = bNorm.slice(bStart, bEnd + 1);
+
+  const n = aSlice.length;
+  const m = bSlice.length;
+  if (n === 0 && m === 0) {
+    return { added: 0, removed: 0, approximate: false };
+  }
+
+  // Tokenize to integers using a shared dictionary
+  const { aTok, bTok, tokenCount } = tokenizePair(aSlice, bSlice);
+
+  if (algorithm === "patience" || algorithm === "histogram") {
+    const matched = anchoredMatches(aTok, bTok, algorithm);
+    return { added: m - matched, removed: n - matched, approximate: false };
+  }
+
+  // Compute minimal edit distance D, derive LCS and counts
+  const maxD = Math.max(100, Math.floor(budget / (n + m)));
+  const d = myersEditDistance(aTok, bTok, maxD);
+  if (d < 0) {
+    return { ...unorderedDiffCounts(aTok, bTok, tokenCount), approximate: true };
+  }
+  const lcs = (n + m - d) >> 1; // integer division
+  const removed = n - lcs;
+  const added = m - lcs;
+  return { added, removed, approximate: false };
+}
+
+// ---- Word- and character-level statistics ----
+
+// Per level (words, characters), like LARGE_FILE_DIFF_BUDGET but smaller since it runs on every file
+const STATS_DIFF_BUDGET = 20_000_000;
+
+const WORD_RE = /\w+|[^\w\s]/g;
+
+function boundedTokenDiff(
+  aTok: Int32Array,
+  bTok: Int32Array,
+  tokenCount: number
+): BoundedDiffCounts {
+  const n = aTok.length;
+  const m = bTok.length;
+  if (n + m === 0) {
+    return { added: 0, removed: 0, approximate: false };
+  }
+  const d = myersEditDistance(aTok, bTok, Math.max(100, Math.floor(STATS_DIFF_BUDGET / (n + m))));
+  if (d < 0) {
+    return { ...unorderedDiffCounts(aTok, bTok, tokenCount), approximate: true };
+  }
+  const lcs = (n + m - d) >> 1;
+  return { added: m - lcs, removed: n - lcs, approximate: false };
+}
+
+function charCodes(text: string): Int32Array {
+  const out = new Int32Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    out[i] = text.charCodeAt(i);
+  }
+  return out;
+}
+
+/**
+ * Word- and character-level change counts and a similarity percentage, on the same normalized
+ * lines as the line counts. Only the region between the common prefix and suffix is diffed.
+ */
+export function computeChangeStats(
+  baseText: string,
+  compareText: string,
+  ignoreWhiteSpace: boolean,
+  filePath: string = "",
+  normalization: NormalizationOptions = DEFAULT_NORMALIZATION
+): ChangeStats {
+  const aNorm = normalizeLines(normalizeEol(baseText), filePath, ignoreWhiteSpace, normalization);
+  const bNorm = normalizeLines(normalizeEol(compareText), filePath, ignoreWhiteSpace, normalization);
+  const { aStart, aEnd, bStart, bEnd } = trimCommonPrefixSuffix(aNorm, bNorm);
+  const aRegion = aNorm.slice(aStart, aEnd + 1).join("\n");
+  const bRegion = bNorm.slice(bStart, bEnd + 1).join("\n");
+
+  const aWords = aRegion.match(WORD_RE) ?? [];
+  const bWords = bRegion.match(WORD_RE) ?? [];
+  const { aTok, bTok, tokenCount } = tokenizePair(aWords, bWords);
+  const words = boundedTokenDiff(aTok, bTok, tokenCount);
+  const chars = boundedTokenDiff(charCodes(aRegion), charCodes(bRegion), 0x10000);
+
+  // Characters outside the diffed region are shared by definition
+  const aTotal = aNorm.join("\n").length;
+  const bTotal = bNorm.join("\n").length;
+  const common = aTotal - chars.removed;
+  const similarity = aTotal + bTotal === 0 ? 100 : Math.round((200 * common) / (aTotal + bTotal));
+
+  return {
+    wordsAdded: words.added,
+    wordsRemoved: words.removed,
+    charsAdded: chars.added,
+    charsRemoved: chars.removed,
+    similarity,
+    approximate: words.approximate || chars.approximate,
+  };
+}
+
+/**
+ * Swaps the sides of change statistics, for results looked up in the reverse direction.
+ */
+export function invertChangeStats(stats: ChangeStats): ChangeStats {
+  return {
+    ...stats,
+    wordsAdded: stats.wordsRemoved,
+    wordsRemoved: stats.wordsAdded,
+    charsAdded: stats.charsRemoved,
+    charsRemoved: stats.charsAdded,
+  };
+}
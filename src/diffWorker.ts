@@ -1,16 +1,12 @@
 import { parentPort } from "worker_threads";
 import { promises as fsp } from "fs";
 import * as path from "path";
-import { DiffResult } from "./types";
-
-interface DiffParamsIn {
-  currentFilePath: string;
-  compareWorkspaceFilePath: string;
-  compareRelativeFilePath: string;
-  compareWorkspaceName: string;
-  ignoreWhiteSpace: boolean;
-  baseContent?: string; // optional preloaded content of currentFilePath to avoid repeated reads
-}
+import md5 = require("md5");
+import { DiffResult, DiffTaskParams } from "./types";
+import { GitRefFallback, readBinaryFileAtRef, readFileAtRef } from "./git";
+import { diffStructured, parseStructured, structuredFormatFor } from "./structuredDiff";
+import { computeBoundedDiffCounts, computeChangeStats, computeDiffCounts } from "./diffEngine";
+import { hashFile, isBinaryLike } from "./fileUtils";
 
 async function fileExists(p: string): Promise<boolean> {
   try {
@@ -21,7 +17,92 @@ async function fileExists(p: string): Promise<boolean> {
   }
 }
 
-async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
+// Thrown at checkpoints once the pool has cancelled the running task
+class CancelledError extends Error {}
+
+async function fileSize(p: string): Promise<number> {
+  return (await fsp.stat(p)).size;
+}
+
+async function statFile(p: string) {
+  try {
+    const st = await fsp.stat(p);
+    return st.isFile() ? st : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Binary files (images, fonts, archives, ...) are compared by hash; instead of line counts
+ * the result carries the size and modification time of the target.
+ */
+async function compareBinaryFile(
+  params: DiffTaskParams,
+  resolvedCompareFilePath: string
+): Promise<DiffResult> {
+  const { currentFilePath, compareWorkspaceFilePath, compareWorkspaceName, compareRef } = params;
+
+  let compareRefContent: Buffer | undefined;
+  let compareRefMissing = false;
+  let compareRefFallback: GitRefFallback | undefined;
+  if (compareRef) {
+    const read = await readBinaryFileAtRef(resolvedCompareFilePath, compareRef);
+    if (read.status === "ok") {
+      compareRefContent = read.content;
+    } else if (read.status === "missingFile") {
+      compareRefMissing = true;
+    } else {
+      compareRefFallback = read.status;
+    }
+  }
+  const refInfo = compareRef ? { compareRef, compareRefFallback } : {};
+
+  const fromRef = compareRefContent !== undefined || compareRefMissing;
+  const [baseStat, compareStat] = await Promise.all([
+    statFile(currentFilePath),
+    fromRef ? Promise.resolve(null) : statFile(resolvedCompareFilePath),
+  ]);
+  const compareExists = compareRefContent !== undefined || !!compareStat;
+  if (!baseStat || !compareExists) {
+    return {
+      projectName: compareWorkspaceName,
+      diffLineCount: 0,
+      diffDetail: { added: 0, removed: 0 },
+      compareFilePath: resolvedCompareFilePath,
+      fileExists: compareExists,
+      compareWorkspaceFilePath,
+      ...refInfo,
+    };
+  }
+
+  const [baseContentHash, contentHash] = await Promise.all([
+    params.baseContentHash ?? hashFile(currentFilePath),
+    compareRefContent !== undefined ? md5(compareRefContent) : hashFile(resolvedCompareFilePath),
+  ]);
+  const identical = baseContentHash === contentHash;
+  return {
+    projectName: compareWorkspaceName,
+    // One "change" for differing files, so they sort after identical ones
+    diffLineCount: identical ? 0 : 1,
+    diffDetail: { added: 0, removed: 0 },
+    compareFilePath: resolvedCompareFilePath,
+    fileExists: true,
+    compareWorkspaceFilePath,
+    ...refInfo,
+    contentHash,
+    baseContentHash,
+    binary: {
+      size: compareRefContent !== undefined ? compareRefContent.length : compareStat!.size,
+      // A file read from a git revision has no modification time of its own
+      mtimeMs: compareStat?.mtimeMs,
+      baseSize: baseStat.size,
+      identical,
+    },
+  };
+}
+
+async function compareFile(params: DiffTaskParams, isCancelled: () => boolean): Promise<DiffResult> {
   const {
     currentFilePath,
     compareWorkspaceFilePath,
@@ -29,6 +110,7 @@ async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
     compareWorkspaceName,
     ignoreWhiteSpace,
     baseContent,
+    compareRef,
   } = params;
 
   const resolvedCompareFilePath = path.join(
@@ -36,10 +118,37 @@ async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
     compareRelativeFilePath
   );
 
+  // A preloaded reference is text; otherwise sniff the reference file itself
+  if (baseContent === undefined && (await fileExists(currentFilePath)) && isBinaryLike(currentFilePath)) {
+    return compareBinaryFile(params, resolvedCompareFilePath);
+  }
+
+  // When comparing against a git revision, read the target from the local repository.
+  // Projects that are not git repos, or lack the ref, fall back to the working tree.
+  // Preloaded target content (an unsaved editor) takes precedence over both.
+  let compareContent: string | undefined = params.compareContent;
+  let compareRefMissing = false;
+  let compareRefFallback: GitRefFallback | undefined;
+  if (compareRef && compareContent === undefined) {
+    const read = await readFileAtRef(resolvedCompareFilePath, compareRef);
+    if (read.status === "ok") {
+      compareContent = read.content;
+    } else if (read.status === "missingFile") {
+      compareRefMissing = true;
+    } else {
+      compareRefFallback = read.status;
+    }
+  }
+  const refInfo = compareRef ? { compareRef, compareRefFallback } : {};
+
   const [baseExists, compareExists] = await Promise.all([
     // If base content provided, treat base as existing
     baseContent !== undefined ? Promise.resolve(true) : fileExists(currentFilePath),
-    fileExists(resolvedCompareFilePath),
+    compareContent !== undefined
+      ? Promise.resolve(true)
+      : compareRefMissing
+        ? Promise.resolve(false)
+        : fileExists(resolvedCompareFilePath),
   ]);
 
   if (!baseExists) {
@@ -50,6 +159,7 @@ async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
       compareFilePath: resolvedCompareFilePath,
       fileExists: compareExists,
       compareWorkspaceFilePath,
+      ...refInfo,
     };
   }
 
@@ -61,14 +171,78 @@ async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
       compareFilePath: resolvedCompareFilePath,
       fileExists: false,
       compareWorkspaceFilePath,
+      ...refInfo,
     };
   }
 
+  // Large files: a streamed hash answers identical/different before anything is loaded,
+  // and differing files get a bounded-cost diff that may only estimate the counts
+  const largeFileBytes = params.largeFileBytes ?? 0;
+  if (largeFileBytes > 0) {
+    const [baseSize, compareSize] = await Promise.all([
+      baseContent !== undefined ? Buffer.byteLength(baseContent) : fileSize(currentFilePath),
+      compareContent !== undefined
+        ? Buffer.byteLength(compareContent)
+        : fileSize(resolvedCompareFilePath),
+    ]);
+    if (Math.max(baseSize, compareSize) > largeFileBytes) {
+      const [baseHash, compareHash] = await Promise.all([
+        params.baseContentHash ??
+          (baseContent !== undefined ? md5(baseContent) : hashFile(currentFilePath)),
+        compareContent !== undefined ? md5(compareContent) : hashFile(resolvedCompareFilePath),
+      ]);
+      const common = {
+        projectName: compareWorkspaceName,
+        compareFilePath: resolvedCompareFilePath,
+        fileExists: true,
+        compareWorkspaceFilePath,
+        ...refInfo,
+        contentHash: compareHash,
+        baseContentHash: baseHash,
+      };
+      if (baseHash === compareHash) {
+        return { ...common, diffLineCount: 0, diffDetail: { added: 0, removed: 0 } };
+      }
+      if (isCancelled()) {
+        throw new CancelledError();
+      }
+      const [largeBase, largeCompare] = await Promise.all([
+        baseContent !== undefined ? Promise.resolve(baseContent) : fsp.readFile(currentFilePath, "utf8"),
+        compareContent !== undefined
+          ? Promise.resolve(compareContent)
+          : fsp.readFile(resolvedCompareFilePath, "utf8"),
+      ]);
+      const counts = computeBoundedDiffCounts(
+        largeBase,
+        largeCompare,
+        !!ignoreWhiteSpace,
+        resolvedCompareFilePath,
+        params.normalization
+      );
+      return {
+        ...common,
+        diffLineCount: counts.added + counts.removed,
+        diffDetail: { added: counts.added, removed: counts.removed },
+        algorithm: "myers",
+        ...(counts.approximate ? { approximate: true } : {}),
+      };
+    }
+  }
+
   const [baseText, compareText] = await Promise.all([
     baseContent !== undefined ? Promise.resolve(baseContent) : fsp.readFile(currentFilePath, "utf8"),
-    fsp.readFile(resolvedCompareFilePath, "utf8"),
+    compareContent !== undefined
+      ? Promise.resolve(compareContent)
+      : fsp.readFile(resolvedCompareFilePath, "utf8"),
   ]);
 
+  if (isCancelled()) {
+    throw new CancelledError();
+  }
+
+  // Content hashes let the tree cluster projects that share the same version
+  const baseContentHash = params.baseContentHash ?? md5(baseText);
+
   // Fast path: exact equality
   if (baseText === compareText) {
     return {
@@ -78,11 +252,65 @@ async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
       compareFilePath: resolvedCompareFilePath,
       fileExists: true,
       compareWorkspaceFilePath,
+      ...refInfo,
+      contentHash: baseContentHash,
+      baseContentHash,
+      stats: {
+        wordsAdded: 0,
+        wordsRemoved: 0,
+        charsAdded: 0,
+        charsRemoved: 0,
+        similarity: 100,
+        approximate: false,
+      },
     };
   }
 
+  // Key-level comparison for config files; falls back to lines when either side doesn't parse
+  const format = params.structuredDiff ? structuredFormatFor(resolvedCompareFilePath) : null;
+  if (format) {
+    try {
+      const structured = diffStructured(
+        parseStructured(baseText, format),
+        parseStructured(compareText, format),
+        format
+      );
+      return {
+        projectName: compareWorkspaceName,
+        diffLineCount: structured.added + structured.removed + structured.changed,
+        diffDetail: { added: structured.added, removed: structured.removed },
+        compareFilePath: resolvedCompareFilePath,
+        fileExists: true,
+        compareWorkspaceFilePath,
+        ...refInfo,
+        contentHash: md5(compareText),
+        baseContentHash,
+        structured,
+      };
+    } catch {
+      // Not valid JSON/YAML; use the line-based comparison
+    }
+  }
+
   // Compute exact diff counts using an optimized Myers edit distance on tokenized lines
-  const { added, removed } = computeDiffCounts(baseText, compareText, !!ignoreWhiteSpace);
+  const { added, removed } = computeDiffCounts(
+    baseText,
+    compareText,
+    !!ignoreWhiteSpace,
+    resolvedCompareFilePath,
+    params.normalization,
+    params.algorithm
+  );
+  if (isCancelled()) {
+    throw new CancelledError();
+  }
+  const stats = computeChangeStats(
+    baseText,
+    compareText,
+    !!ignoreWhiteSpace,
+    resolvedCompareFilePath,
+    params.normalization
+  );
 
   return {
     projectName: compareWorkspaceName,
@@ -91,6 +319,11 @@ async function compareFile(params: DiffParamsIn): Promise<DiffResult> {
     compareFilePath: resolvedCompareFilePath,
     fileExists: true,
     compareWorkspaceFilePath,
+    ...refInfo,
+    contentHash: md5(compareText),
+    baseContentHash,
+    algorithm: params.algorithm ?? "myers",
+    stats,
   };
 }
 
@@ -98,144 +331,30 @@ if (!parentPort) {
   throw new Error("diffWorker must be run as a worker thread");
 }
 
+// Ids of the running tasks, and of those the pool asked to stop
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
 parentPort.on("message", async (msg: any) => {
+  if (msg?.type === "cancel") {
+    if (running.has(msg.id)) {
+      cancelled.add(msg.id);
+    }
+    return;
+  }
   const { id, payload } = msg || {};
+  running.add(id);
   try {
-    const result = await compareFile(payload as DiffParamsIn);
-    parentPort!.postMessage({ id, result });
+    const result = await compareFile(payload as DiffTaskParams, () => cancelled.has(id));
+    parentPort!.postMessage(cancelled.has(id) ? { id, cancelled: true } : { id, result });
   } catch (error: any) {
-    parentPort!.postMessage({ id, error: { message: String(error?.message || error) } });
-  }
-});
-
-// ---- Internal exact diff (counts-only) utilities ----
-
-function normalizeEol(text: string): string {
-  // Normalize CRLF/CR to LF for consistent line splitting
-  return text.replace(/\r\n?|\u2028|\u2029/g, "\n");
-}
-
-function maybeNormalizeWhitespace(line: string, ignoreWhiteSpace: boolean): string {
-  if (!ignoreWhiteSpace) return line;
-  // Collapse all whitespace to a single space and trim
-  // This approximates a whitespace-insensitive comparison for counting purposes
-  return line.replace(/\s+/g, " ").trim();
-}
-
-function splitToLines(text: string): string[] {
-  if (text.length === 0) return [];
-  return text.split("\n");
-}
-
-function trimCommonPrefixSuffix(
-  a: string[],
-  b: string[]
-): { aStart: number; aEnd: number; bStart: number; bEnd: number } {
-  let aStart = 0;
-  let bStart = 0;
-  const aLen = a.length;
-  const bLen = b.length;
-  // Prefix
-  while (aStart < aLen && bStart < bLen && a[aStart] === b[bStart]) {
-    aStart++;
-    bStart++;
-  }
-  // Suffix
-  let aEnd = aLen - 1;
-  let bEnd = bLen - 1;
-  while (aEnd >= aStart && bEnd >= bStart && a[aEnd] === b[bEnd]) {
-    aEnd--;
-    bEnd--;
-  }
-  return { aStart, aEnd, bStart, bEnd };
-}
-
-function tokenizePair(aLines: string[], bLines: string[]): { aTok: Int32Array; bTok: Int32Array } {
-  // Use a shared dictionary so identical line strings get identical IDs across both arrays
-  const dict = new Map<string, number>();
-  let nextId = 1;
-  const aTok = new Int32Array(aLines.length);
-  const bTok = new Int32Array(bLines.length);
-  for (let i = 0; i < aLines.length; i++) {
-    const s = aLines[i];
-    let id = dict.get(s);
-    if (id === undefined) {
-      id = nextId++;
-      dict.set(s, id);
-    }
-    aTok[i] = id;
-  }
-  for (let i = 0; i < bLines.length; i++) {
-    const s = bLines[i];
-    let id = dict.get(s);
-    if (id === undefined) {
-      id = nextId++;
-      dict.set(s, id);
-    }
-    bTok[i] = id;
-  }
-  return { aTok, bTok };
-}
-
-function myersEditDistance(a: Int32Array, b: Int32Array): number {
-  // Compute minimal edit distance (insertions+deletions) using Myers O(ND)
-  const n = a.length;
-  const m = b.length;
-  if (n === 0) return m;
-  if (m === 0) return n;
-  const max = n + m;
-  const v = new Int32Array(2 * max + 1);
-  const offset = max;
-  v[offset + 1] = 0;
-  for (let d = 0; d <= max; d++) {
-    for (let k = -d; k <= d; k += 2) {
-      let x: number;
-      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
-        x = v[offset + k + 1];
-      } else {
-        x = v[offset + k - 1] + 1;
-      }
-      let y = x - k;
-      while (x < n && y < m && a[x] === b[y]) {
-        x++;
-        y++;
-      }
-      v[offset + k] = x;
-      if (x >= n && y >= m) {
-        return d;
-      }
+    if (error instanceof CancelledError) {
+      parentPort!.postMessage({ id, cancelled: true });
+    } else {
+      parentPort!.postMessage({ id, error: { message: String(error?.message || error) } });
     }
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
   }
-  return max;
-}
-
-function computeDiffCounts(baseText: string, compareText: string, ignoreWhiteSpace: boolean): { added: number; removed: number } {
-  // Normalize line endings
-  const aRaw = splitToLines(normalizeEol(baseText));
-  const bRaw = splitToLines(normalizeEol(compareText));
-
-  // Apply optional whitespace normalization
-  const aNorm = aRaw.map((s) => maybeNormalizeWhitespace(s, ignoreWhiteSpace));
-  const bNorm = bRaw.map((s) => maybeNormalizeWhitespace(s, ignoreWhiteSpace));
-
-  // Trim common prefixes/suffixes
-  const { aStart, aEnd, bStart, bEnd } = trimCommonPrefixSuffix(aNorm, bNorm);
-  const aSlice = aNorm.slice(aStart, aEnd + 1);
-  const bSlice = bNorm.slice(bStart, bEnd + 1);
-
-  const n = aSlice.length;
-  const m = bSlice.length;
-  if (n === 0 && m === 0) {
-    return { added: 0, removed: 0 };
-  }
-
-  // Tokenize to integers using a shared dictionary
-  const { aTok, bTok } = tokenizePair(aSlice, bSlice);
-
-  // Compute minimal edit distance D, derive LCS and counts
-  const d = myersEditDistance(aTok, bTok);
-  const lcs = (n + m - d) >> 1; // integer division
-  const removed = n - lcs;
-  const added = m - lcs;
-  return { added, removed };
-}
+});
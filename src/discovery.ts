@@ -0,0 +1,202 @@
+import { promises as fsp } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { DiffGroup, Project } from "./compare";
+import { DEFAULT_FOLDER_EXCLUDES } from "./folderDiff";
+import { isSamePath } from "./fileUtils";
+
+/**
+ * A rule from a group's `discover` setting. A string is a glob of project folders, e.g.
+ * `~/repos/*-service` or `${env:WORK_ROOT}/apps/*`.
+ */
+export type DiscoveryRule =
+	| string
+	| {
+			// Glob of project folders
+			pattern?: string;
+			// Folder searched for projects; with `containing`, at any depth up to `maxDepth`
+			under?: string;
+			// Only folders that contain this file or folder become projects, e.g. "package.json"
+			containing?: string;
+			// Levels searched below `under` or a `**` pattern
+			maxDepth?: number;
+			// Folder names never searched
+			exclude?: string[];
+	  };
+
+export interface DiscoveryOptions {
+	// Relative paths in rules are resolved against this folder
+	baseDir?: string;
+	// Values for `${name}` placeholders besides `${env:NAME}` and `${userHome}`
+	variables?: Record<string, string>;
+}
+
+interface ResolvedRule {
+	base: string;
+	// Posix glob relative to `base`
+	pattern: string;
+	containing?: string;
+	maxDepth: number;
+	exclude: Set<string>;
+}
+
+const DEFAULT_MAX_DEPTH = 4;
+const GLOB_CHARS = /[*?[\]{}!]/;
+
+/**
+ * Expands `~`, `${userHome}`, `${env:NAME}` and the given variables. Unknown variables are left
+ * as they are; unset environment variables expand to an empty string.
+ */
+export function expandPathVariables(p: string, variables: Record<string, string> = {}): string {
+	const expanded = p
+		.replace(/\$\{env:([^}]+)\}/g, (_, name: string) => process.env[name] ?? "")
+		.replace(/\$\{userHome\}/g, os.homedir())
+		.replace(/\$\{([^}:]+)\}/g, (match, name: string) => variables[name] ?? match);
+	if (expanded === "~" || expanded.startsWith("~/") || expanded.startsWith("~\\")) {
+		return path.join(os.homedir(), expanded.slice(1));
+	}
+	return expanded;
+}
+
+function resolveRule(rule: DiscoveryRule, options: DiscoveryOptions): ResolvedRule | null {
+	const spec = typeof rule === "string" ? { pattern: rule } : rule;
+	const exclude = new Set([...DEFAULT_FOLDER_EXCLUDES, ...(spec.exclude ?? [])]);
+	const absolute = (p: string) =>
+		path.resolve(options.baseDir ?? process.cwd(), expandPathVariables(p, options.variables));
+
+	if (spec.pattern) {
+		const segments = absolute(spec.pattern).split(/[\\/]/);
+		// The leading segments without glob characters are searched from
+		let split = segments.findIndex((seg) => GLOB_CHARS.test(seg));
+		if (split === -1) {
+			// A plain folder; match it by name in its parent
+			split = segments.length - 1;
+		}
+		const rest = segments.slice(split);
+		const base = segments.slice(0, split).join(path.sep) || path.sep;
+		return {
+			base,
+			pattern: rest.join("/"),
+			containing: spec.containing,
+			maxDepth: rest.includes("**") ? spec.maxDepth ?? DEFAULT_MAX_DEPTH : rest.length,
+			exclude,
+		};
+	}
+	if (spec.under) {
+		return {
+			base: absolute(spec.under),
+			pattern: spec.containing ? "**" : "*",
+			containing: spec.containing,
+			maxDepth: spec.containing ? spec.maxDepth ?? DEFAULT_MAX_DEPTH : 1,
+			exclude,
+		};
+	}
+	return null;
+}
+
+function isInside(child: string, parent: string): boolean {
+	const rel = path.relative(parent, child);
+	return rel !== "" && !rel.startsWith("..") && !path.isAbsolute(rel);
+}
+
+async function exists(p: string): Promise<boolean> {
+	try {
+		await fsp.access(p);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Folders matching a rule, sorted by path. Matching folders are not searched further.
+async function discoverPaths(rule: ResolvedRule): Promise<string[]> {
+	const found: string[] = [];
+	async function walk(dir: string, rel: string, depth: number): Promise<void> {
+		let entries;
+		try {
+			entries = await fsp.readdir(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			if (!entry.isDirectory() || rule.exclude.has(entry.name)) {
+				continue;
+			}
+			const childRel = rel ? `${rel}/${entry.name}` : entry.name;
+			const child = path.join(dir, entry.name);
+			if (
+				minimatch(childRel, rule.pattern) &&
+				(!rule.containing || (await exists(path.join(child, rule.containing))))
+			) {
+				found.push(child);
+			} else if (depth + 1 < rule.maxDepth) {
+				await walk(child, childRel, depth + 1);
+			}
+		}
+	}
+	await walk(rule.base, "", 0);
+	return found.sort();
+}
+
+/**
+ * Returns the group with its discovery rules expanded into projects, after the projects listed
+ * explicitly. Discovered projects are named after their folder, qualified by the parent folder
+ * when two would share a name. Explicit project paths may also use `~` and variables, and
+ * relative ones are resolved against `options.baseDir`.
+ */
+export async function resolveGroupProjects(group: DiffGroup, options: DiscoveryOptions = {}): Promise<DiffGroup> {
+	const workspaces: Project[] = (group.workspaces ?? []).map((ws) => {
+		const expanded = expandPathVariables(ws.path, options.variables);
+		return { ...ws, path: options.baseDir ? path.resolve(options.baseDir, expanded) : expanded };
+	});
+	const rules = (group.discover ?? [])
+		.map((rule) => resolveRule(rule, options))
+		.filter((rule): rule is ResolvedRule => rule !== null);
+	if (rules.length === 0) {
+		return { ...group, workspaces };
+	}
+
+	const discovered = (await Promise.all(rules.map(discoverPaths))).flat();
+	const names = new Set(workspaces.map((ws) => ws.name));
+	for (const folder of discovered) {
+		if (workspaces.some((ws) => isSamePath(ws.path, folder))) {
+			continue;
+		}
+		// A project nested in another discovered one would match the same files twice
+		if (discovered.some((other) => isInside(folder, other))) {
+			continue;
+		}
+		let name = path.basename(folder);
+		if (names.has(name)) {
+			name = `${path.basename(path.dirname(folder))}/${name}`;
+		}
+		for (let n = 2; names.has(name); n++) {
+			name = `${path.basename(folder)} (${n})`;
+		}
+		names.add(name);
+		workspaces.push({ name, path: folder });
+	}
+	return { ...group, workspaces };
+}
+
+export function resolveDiffGroups(groups: DiffGroup[], options: DiscoveryOptions = {}): Promise<DiffGroup[]> {
+	return Promise.all(groups.map((group) => resolveGroupProjects(group, options)));
+}
+
+/**
+ * Folders and globs to watch so discovered projects can be refreshed when folders matching a
+ * rule (or their marker files) are created or deleted.
+ */
+export function discoveryWatchPatterns(
+	group: DiffGroup,
+	options: DiscoveryOptions = {}
+): Array<{ base: string; pattern: string }> {
+	return (group.discover ?? [])
+		.map((rule) => resolveRule(rule, options))
+		.filter((rule): rule is ResolvedRule => rule !== null)
+		.map((rule) => ({
+			base: rule.base,
+			pattern: rule.containing ? `${rule.pattern}/${rule.containing}` : rule.pattern,
+		}));
+}
@@ -2,55 +2,120 @@ import * as vscode from "vscode";
 import * as path from "path";
 import * as os from "os";
 import * as fs from "fs";
-import { DiffResult } from "./types";
-import { DiffItem, ProjectDiffView, TopDiffItem } from "./projectDiffView";
-import { WorkerPool } from "./workerPool";
-import { DiffCache } from "./diffCache";
-
-export interface DiffGroup {
-	name: string;
-	ignoreWhiteSpace: boolean;
-	workspaces: Array<Project>;
-}
-
-export interface Project {
-	name: string;
-	path: string;
+import md5 = require("md5");
+import { DiffResult, DiffTaskParams, FolderProjectResult } from "./types";
+import {
+	CompareCache,
+	CompareOptions,
+	DiffGroup,
+	MatchingGroup,
+	Project,
+	changedGroupRoots,
+	compareFileAcrossGroup,
+	compareFolderAcrossGroup,
+	compareFolderFile,
+	createDiffWorkerPool,
+	errorMessage,
+	findMatchingGroup,
+	findMatchingGroups,
+	groupTaskParams,
+	largeFileBytesOf,
+} from "./compare";
+import {
+	DiffItem,
+	GroupResults,
+	GroupResultsItem,
+	HunkItem,
+	ProjectDiffView,
+	TopDiffItem,
+	VersionClusterItem,
+} from "./projectDiffView";
+import { RunOptions, TaskTimeoutError, WorkerPool } from "./workerPool";
+import { DiffCache, DiffCacheKeyParts, makeOptionsKey } from "./diffCache";
+import { PersistentDiffCache } from "./persistentDiffCache";
+import { contentHashOf, formatBytes, hashFile, isBinaryLike, isImageFile, isSameOrInside, isSamePath } from "./fileUtils";
+import { DEFAULT_FOLDER_EXCLUDES } from "./folderDiff";
+import { mapRelativePath } from "./pathMapping";
+import { Hunk, HunkDirection, addHunkEdits, computeHunks, describeHunk, findSameHunk } from "./hunks";
+import { PushHistory, PushRollbackError, PushTarget } from "./bulkPush";
+import { ReportFormat, buildReport, renderReport } from "./report";
+import { MatrixCell, SimilarityMatrixPanel } from "./matrixView";
+import { DriftCounts, DriftDecorationProvider } from "./fileDecorations";
+import { DiscoveryOptions, discoveryWatchPatterns, resolveDiffGroups } from "./discovery";
+import { ConfigProblem, REPO_CONFIG_FILE, RepoConfig, loadRepoConfig, mergeDiffGroups } from "./repoConfig";
+import { normalizationKey, patternError, resolveNormalization } from "./normalization";
+import {
+	getGitStatus,
+	gitStatusFor,
+	hasUncommittedChanges,
+	readFileAtRef,
+} from "./git";
+
+const GIT_REF_SCHEME = "multiprojectsdiff-git";
+
+function toGitRefUri(fsPath: string, ref: string): vscode.Uri {
+	return vscode.Uri.file(fsPath).with({
+		scheme: GIT_REF_SCHEME,
+		query: JSON.stringify({ ref }),
+	});
 }
 
-export type MatchingGroup = DiffGroup | undefined | null;
+// "file" compares a single reference file, "folder" compares a reference folder recursively
+export type DiffMode = "file" | "folder";
 
 // Define a class to manage the shared state
 class DiffState {
 	private currentFilePath: string | null = null;
 	private currentResults: DiffResult[] = [];
+	private currentFolderResults: FolderProjectResult[] | null = null;
 	private currentMatchingGroup: MatchingGroup;
 	private currentMatchingProject: Project | undefined;
 	private currentReferenceFilePath: string | null = null;
+	private currentMode: DiffMode = "file";
+	private currentCompareRef: string | null = null;
+	private currentGroupResults: GroupResults[] | null = null;
+	private currentGroupPinned = false;
 
 	setCurrentState(state: {
 		filePath: string | null;
 		results: DiffResult[];
+		folderResults?: FolderProjectResult[] | null;
 		matchingGroup: MatchingGroup;
 		matchingProject?: Project;
 		referenceFilePath?: string | null;
+		mode?: DiffMode;
+		// Results per group when the reference belongs to several groups
+		groupResults?: GroupResults[] | null;
+		// Whether the group was picked rather than matched from the reference path
+		groupPinned?: boolean;
 	}) {
 		this.currentFilePath = state.filePath;
 		this.currentResults = state.results;
+		this.currentFolderResults = state.folderResults ?? null;
 		this.currentMatchingGroup = state.matchingGroup;
 		this.currentMatchingProject = state.matchingProject;
+		this.currentGroupResults = state.groupResults ?? null;
+		this.currentGroupPinned = state.groupPinned ?? false;
 		if (state.referenceFilePath !== undefined) {
 			this.currentReferenceFilePath = state.referenceFilePath;
 		}
+		if (state.mode !== undefined) {
+			this.currentMode = state.mode;
+		}
 	}
 
 	getCurrentState() {
 		return {
 			filePath: this.currentFilePath,
 			results: this.currentResults,
+			folderResults: this.currentFolderResults,
 			matchingGroup: this.currentMatchingGroup,
 			matchingProject: this.currentMatchingProject,
 			referenceFilePath: this.currentReferenceFilePath,
+			mode: this.currentMode,
+			compareRef: this.currentCompareRef,
+			groupResults: this.currentGroupResults,
+			groupPinned: this.currentGroupPinned,
 		};
 	}
 
@@ -58,24 +123,80 @@ class DiffState {
 		this.currentReferenceFilePath = filePath;
 	}
 
+	// Git revision targets are compared against; null compares the working tree
+	setCompareRef(ref: string | null) {
+		this.currentCompareRef = ref;
+	}
+
 	clearState() {
 		this.currentFilePath = null;
 		this.currentResults = [];
+		this.currentFolderResults = null;
 		this.currentMatchingGroup = undefined;
 		this.currentMatchingProject = undefined;
 		this.currentReferenceFilePath = null;
+		this.currentMode = "file";
+		this.currentCompareRef = null;
+		this.currentGroupResults = null;
+		this.currentGroupPinned = false;
 	}
 }
 
+type SortBy = "lines" | "similarity" | "name";
+
+// Order of projects in the tree; existing files always come before missing ones
+function compareDiffResults(sortBy: SortBy): (a: DiffResult, b: DiffResult) => number {
+	return (a, b) => {
+		if (a.fileExists !== b.fileExists) {
+			return a.fileExists ? -1 : 1;
+		}
+		switch (sortBy) {
+			case "similarity": {
+				// Most similar first; results without statistics (e.g. structured) go last
+				const bySimilarity = (b.stats?.similarity ?? -1) - (a.stats?.similarity ?? -1);
+				return bySimilarity !== 0 ? bySimilarity : a.diffLineCount - b.diffLineCount;
+			}
+			case "name":
+				return a.projectName.localeCompare(b.projectName);
+			default:
+				return a.diffLineCount - b.diffLineCount;
+		}
+	};
+}
+
+// One worker pool for the extension's lifetime, created on first use and closed in deactivate()
+let sharedPool: WorkerPool<DiffTaskParams, DiffResult> | undefined;
+
+function getWorkerPool(): WorkerPool<DiffTaskParams, DiffResult> {
+	if (!sharedPool) {
+		sharedPool = createDiffWorkerPool();
+	}
+	return sharedPool;
+}
+
 export function activate(context: vscode.ExtensionContext) {
 	const projectDiffView = new ProjectDiffView();
-	const workspaceConfig =
-		vscode.workspace.getConfiguration("multiProjectsDiff");
+	// Read on every use so that setting changes apply without reloading the window
+	const workspaceConfig = () => vscode.workspace.getConfiguration("multiProjectsDiff");
 	const diffState = new DiffState();
 
 	// Cache recent diff results keyed by file paths + mtimes
 	const diffCache = new DiffCache(1000);
 
+	// Results keyed by content hashes, kept across sessions in global storage
+	const diskCacheMaxBytes = () =>
+		Math.max(0, workspaceConfig().get<number>("diskCacheMaxSizeMB", 16)) * 1024 * 1024;
+	const persistentCache = new PersistentDiffCache(
+		path.join(context.globalStorageUri.fsPath, "diff-cache.json"),
+		diskCacheMaxBytes()
+	);
+	persistentCache.load().catch((err) => console.error(err));
+	context.subscriptions.push({
+		dispose: () => {
+			persistentCache.flush().catch(() => {});
+		},
+	});
+
 	// Track concurrent runs to avoid stale updates and allow cancellation
 	let currentRunId = 0;
 	let activeRunCts: vscode.CancellationTokenSource | null = null;
@@ -91,67 +212,567 @@ export function activate(context: vscode.ExtensionContext) {
 	// Create and register the TreeView
 	const treeView = vscode.window.createTreeView("multiProjectsDiffView", {
 		treeDataProvider: projectDiffView,
+		canSelectMany: true,
 	});
 	context.subscriptions.push(treeView);
 
-	// Heuristics for eligibility
-	const MAX_WATCH_FILE_BYTES = 2 * 1024 * 1024; // 2 MB
-	const BINARY_EXTS = new Set([
-		"png","jpg","jpeg","gif","bmp","ico","webp",
-		"mp3","wav","flac","mp4","avi","mov","mkv",
-		"zip","rar","7z","gz","bz2","xz","tar",
-		"exe","dll","so","dylib","pdf"
-	]);
-
-	function isBinaryLike(fsPath: string): boolean {
-		const ext = path.extname(fsPath).toLowerCase().replace(/^\./, "");
-		if (ext && BINARY_EXTS.has(ext)) return true;
-		try {
-			const fd = fs.openSync(fsPath, "r");
-			try {
-				const len = 512;
-				const buf = Buffer.allocUnsafe(len);
-				const bytes = fs.readSync(fd, buf, 0, len, 0);
-				let suspicious = 0;
-				for (let i = 0; i < bytes; i++) {
-					const c = buf[i];
-					if (c === 0) return true; // NUL byte
-					// allow tab/newline/carriage return
-					if (c === 9 || c === 10 || c === 13) continue;
-					// printable ASCII range
-					if (c >= 32 && c <= 126) continue;
-					// allow some UTF-8 bytes (>127) as text; count as suspicious but tolerate up to 30%
-					suspicious++;
+	// Group nodes the user collapsed, remembered per workspace
+	const COLLAPSED_GROUPS_KEY = "multiProjectsDiff.collapsedGroups";
+	const collapsedGroups = new Set(context.workspaceState.get<string[]>(COLLAPSED_GROUPS_KEY, []));
+	projectDiffView.setCollapsedGroups(collapsedGroups);
+	function setGroupCollapsed(element: vscode.TreeItem, collapsed: boolean) {
+		if (!(element instanceof GroupResultsItem)) {
+			return;
+		}
+		const name = element.groupResults.group.name;
+		if (collapsed) {
+			collapsedGroups.add(name);
+		} else {
+			collapsedGroups.delete(name);
+		}
+		projectDiffView.setCollapsedGroups(collapsedGroups);
+		context.workspaceState.update(COLLAPSED_GROUPS_KEY, [...collapsedGroups]);
+	}
+	context.subscriptions.push(
+		treeView.onDidExpandElement((e) => setGroupCollapsed(e.element, false)),
+		treeView.onDidCollapseElement((e) => setGroupCollapsed(e.element, true))
+	);
+
+	// Backups of bulk pushes, so the last push can be undone
+	const pushHistory = new PushHistory(
+		path.join(context.globalStorageUri.fsPath, "push-backups")
+	);
+	pushHistory.load().then(() =>
+		vscode.commands.executeCommand(
+			"setContext",
+			"multiProjectsDiff.canUndoPush",
+			pushHistory.canUndo
+		)
+	);
+
+	// The extension is part of the disk cache key: structured diffs and comment stripping depend on it
+	function diskCacheKey(optionsKey: string, comparePath: string): string {
+		return `${optionsKey}|x:${path.extname(comparePath).toLowerCase()}`;
+	}
+
+	// Looks up a result by content; the caller fills in the project fields
+	async function fromDiskCache(
+		baseContentHash: string | undefined,
+		comparePath: string,
+		optionsKey: string
+	): Promise<DiffResult | null> {
+		if (!baseContentHash || diskCacheMaxBytes() === 0) {
+			return null;
+		}
+		const contentHash = await contentHashOf(comparePath);
+		if (!contentHash) {
+			return null;
+		}
+		await persistentCache.load();
+		const hit = persistentCache.get(baseContentHash, contentHash, diskCacheKey(optionsKey, comparePath));
+		if (!hit) {
+			return null;
+		}
+		return {
+			...hit,
+			projectName: "",
+			compareFilePath: comparePath,
+			fileExists: true,
+			compareWorkspaceFilePath: "",
+			contentHash,
+			baseContentHash,
+		};
+	}
+
+	function toDiskCache(res: DiffResult, optionsKey: string) {
+		// Only results computed from both files' contents are content-addressable; binary results
+		// carry the target's size and date, which the content does not determine
+		if (!res.fileExists || !res.contentHash || !res.baseContentHash || res.compareRef || res.binary) {
+			return;
+		}
+		if (diskCacheMaxBytes() === 0) {
+			return;
+		}
+		persistentCache.setLimits(diskCacheMaxBytes());
+		persistentCache.set(res.baseContentHash, res.contentHash, diskCacheKey(optionsKey, res.compareFilePath), res);
+	}
+
+	// The caches behind one comparison run: memory entries keyed by mtimes, then disk entries
+	// keyed by contents. Reference mtimes and hashes are looked up once per run.
+	function createCompareCache(): CompareCache {
+		const memo = <T>(map: Map<string, Promise<T>>, key: string, compute: () => Promise<T>) => {
+			let value = map.get(key);
+			if (!value) {
+				value = compute();
+				map.set(key, value);
+			}
+			return value;
+		};
+		const mtimeOf = (p: string) => fs.promises.stat(p).then((st) => st.mtimeMs, () => -1);
+		const baseMtimes = new Map<string, Promise<number>>();
+		const baseHashes = new Map<string, Promise<string | undefined>>();
+		const keys = new WeakMap<DiffTaskParams, DiffCacheKeyParts>();
+		return {
+			async get(task) {
+				const basePath = task.currentFilePath;
+				const comparePath = path.join(task.compareWorkspaceFilePath, task.compareRelativeFilePath);
+				const parts: DiffCacheKeyParts = {
+					basePath,
+					baseMtimeMs: await memo(baseMtimes, basePath, () => mtimeOf(basePath)),
+					comparePath,
+					compareMtimeMs: await mtimeOf(comparePath),
+					ignoreWhitespace: task.ignoreWhiteSpace,
+					structuredDiff: !!task.structuredDiff,
+					normalization: task.normalization ? normalizationKey(task.normalization) : "none",
+					largeFileBytes: task.largeFileBytes ?? 0,
+					algorithm: task.algorithm ?? "myers",
+				};
+				keys.set(task, parts);
+				let res = diffCache.get(parts);
+				if (!res) {
+					const baseHash =
+						task.baseContentHash ?? (await memo(baseHashes, basePath, () => contentHashOf(basePath)));
+					res = await fromDiskCache(baseHash, comparePath, makeOptionsKey(parts));
+					if (res) {
+						diffCache.set(parts, res);
+					}
+				}
+				return res;
+			},
+			// Even missing files are cached in memory
+			set(task, res) {
+				const parts = keys.get(task);
+				if (parts) {
+					diffCache.set(parts, res);
+					toDiskCache(res, makeOptionsKey(parts));
+				}
+			},
+		};
+	}
+
+	// Worker task options for a run: newer runs take priority over stale ones, and the run's
+	// queued and running tasks are cancelled with it
+	function workerTaskOptions(
+		runId: number,
+		tokens: vscode.CancellationToken[]
+	): { options: RunOptions; dispose: () => void } {
+		const abort = new AbortController();
+		const subs = tokens.map((t) => t.onCancellationRequested(() => abort.abort()));
+		if (tokens.some((t) => t.isCancellationRequested)) {
+			abort.abort();
+		}
+		const timeoutSeconds = workspaceConfig().get<number>("taskTimeoutSeconds", 30);
+		return {
+			options: {
+				signal: abort.signal,
+				priority: runId,
+				timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+			},
+			dispose: () => subs.forEach((d) => d.dispose()),
+		};
+	}
+
+	function isGitStatusEnabled(): boolean {
+		return workspaceConfig().get<boolean>("showGitStatus", true);
+	}
+
+	function discoveryOptions(): DiscoveryOptions {
+		const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+		return {
+			baseDir: workspaceFolder,
+			variables: workspaceFolder ? { workspaceFolder } : {},
+		};
+	}
+
+	const configDiagnostics = vscode.languages.createDiagnosticCollection("multiProjectsDiff");
+	context.subscriptions.push(configDiagnostics);
+
+	function publishConfigProblems(problems: ConfigProblem[]) {
+		const severities = {
+			error: vscode.DiagnosticSeverity.Error,
+			warning: vscode.DiagnosticSeverity.Warning,
+			information: vscode.DiagnosticSeverity.Information,
+		};
+		const byFile = new Map<string, vscode.Diagnostic[]>();
+		for (const problem of problems) {
+			const diagnostic = new vscode.Diagnostic(
+				new vscode.Range(
+					problem.start.line,
+					problem.start.character,
+					problem.end.line,
+					problem.end.character
+				),
+				problem.message,
+				severities[problem.severity]
+			);
+			diagnostic.source = "Multi Projects Diff";
+			byFile.set(problem.filePath, [...(byFile.get(problem.filePath) ?? []), diagnostic]);
+		}
+		configDiagnostics.clear();
+		for (const [filePath, diagnostics] of byFile) {
+			configDiagnostics.set(vscode.Uri.file(filePath), diagnostics);
+		}
+	}
+
+	// diffGroups from user settings and repository configs, with discovery rules expanded;
+	// reloaded when a config file or a watched folder changes
+	let diffGroupsPromise: Promise<DiffGroup[]> | null = null;
+	function getDiffGroups(): Promise<DiffGroup[]> {
+		if (!diffGroupsPromise) {
+			diffGroupsPromise = loadDiffGroups();
+		}
+		return diffGroupsPromise;
+	}
+
+	// Settings have no file to attach problems to, so each invalid ignore pattern is shown once
+	const warnedPatterns = new Set<string>();
+	function warnInvalidPatterns(groups: DiffGroup[]) {
+		for (const group of groups) {
+			for (const pattern of (group.normalization ?? []).flatMap((rule) => rule.ignorePatterns ?? [])) {
+				const error = patternError(pattern);
+				if (error && !warnedPatterns.has(pattern)) {
+					warnedPatterns.add(pattern);
+					vscode.window.showWarningMessage(
+						`Group "${group.name}": the ignore pattern "${pattern}" is not applied: ${error}`
+					);
 				}
-				if (bytes > 0 && suspicious / bytes > 0.3) return true;
-			} finally {
-				fs.closeSync(fd);
 			}
+		}
+	}
+
+	async function loadDiffGroups(): Promise<DiffGroup[]> {
+		const options = discoveryOptions();
+		const settingsGroups = workspaceConfig().get<DiffGroup[]>("diffGroups") || [];
+		warnInvalidPatterns(settingsGroups);
+		const repoConfigs = (
+			await Promise.all(
+				(vscode.workspace.workspaceFolders ?? []).map((folder) =>
+					loadRepoConfig(path.join(folder.uri.fsPath, REPO_CONFIG_FILE), options.variables)
+				)
+			)
+		).filter((config): config is RepoConfig => config !== null);
+		const merged = mergeDiffGroups(await resolveDiffGroups(settingsGroups, options), repoConfigs);
+		publishConfigProblems([...repoConfigs.flatMap((c) => c.problems), ...merged.problems]);
+		watchDiscoveryRules([
+			...settingsGroups.map((group) => ({ group, options })),
+			...repoConfigs.flatMap((config) =>
+				config.sourceGroups.map((group) => ({
+					group,
+					options: { ...options, baseDir: path.dirname(config.filePath) },
+				}))
+			),
+		]);
+		return merged.groups;
+	}
+
+	// Reloads the groups shortly after a burst of config or folder changes
+	let discoveryTimer: NodeJS.Timeout | undefined;
+	function scheduleRediscovery() {
+		if (discoveryTimer) {
+			clearTimeout(discoveryTimer);
+		}
+		discoveryTimer = setTimeout(() => {
+			applyDiffGroupSettings().catch((err) =>
+				vscode.window.showErrorMessage(`Failed to apply diffGroups settings: ${err?.message ?? err}`)
+			);
+		}, 500);
+	}
+
+	// Re-runs discovery when folders matching a rule appear or disappear
+	let discoveryWatchers: vscode.Disposable[] = [];
+	function watchDiscoveryRules(sources: Array<{ group: DiffGroup; options: DiscoveryOptions }>) {
+		discoveryWatchers.forEach((d) => d.dispose());
+		discoveryWatchers = [];
+		for (const { group, options } of sources) {
+			for (const { base, pattern } of discoveryWatchPatterns(group, options)) {
+				const watcher = vscode.workspace.createFileSystemWatcher(
+					new vscode.RelativePattern(vscode.Uri.file(base), pattern),
+					false,
+					true,
+					false
+				);
+				watcher.onDidCreate(scheduleRediscovery);
+				watcher.onDidDelete(scheduleRediscovery);
+				discoveryWatchers.push(watcher);
+			}
+		}
+	}
+
+	const repoConfigWatcher = vscode.workspace.createFileSystemWatcher(`**/${REPO_CONFIG_FILE}`);
+	repoConfigWatcher.onDidCreate(scheduleRediscovery);
+	repoConfigWatcher.onDidChange(scheduleRediscovery);
+	repoConfigWatcher.onDidDelete(scheduleRediscovery);
+	context.subscriptions.push(
+		repoConfigWatcher,
+		vscode.workspace.onDidChangeWorkspaceFolders(scheduleRediscovery),
+		{
+			dispose: () => {
+				if (discoveryTimer) {
+					clearTimeout(discoveryTimer);
+				}
+				discoveryWatchers.forEach((d) => d.dispose());
+			},
+		}
+	);
+	// Load eagerly so config problems show up without running a diff
+	getDiffGroups();
+
+	// The group the user picked for the current reference; otherwise its groups are matched by path
+	function pinnedGroup(): DiffGroup | undefined {
+		const state = diffState.getCurrentState();
+		return state.groupPinned ? state.matchingGroup ?? undefined : undefined;
+	}
+
+	// A diff skipped while the view was hidden; run when it is shown again
+	let refreshWhenVisible = false;
+
+	// Settings are read fresh on use; groups are reloaded, from user settings, repository configs
+	// and discovery, and results computed for groups whose settings changed are dropped so the
+	// view does not show them again
+	async function applyDiffGroupSettings() {
+		const before = await getDiffGroups();
+		diffGroupsPromise = null;
+		const after = await getDiffGroups();
+		if (JSON.stringify(before) === JSON.stringify(after)) {
+			return;
+		}
+		const changedRoots = changedGroupRoots(before, after);
+		const isUnderChangedRoot = (p: string) => changedRoots.some((root) => isSameOrInside(p, root));
+		diffCache.invalidate((parts) => isUnderChangedRoot(parts.basePath) || isUnderChangedRoot(parts.comparePath));
+		decorationProvider.refreshAll();
+
+		// The current reference keeps its group when it still exists; otherwise it is matched again
+		const state = diffState.getCurrentState();
+		if (!state.referenceFilePath) {
+			return;
+		}
+		if (!treeView.visible) {
+			refreshWhenVisible = true;
+			return;
+		}
+		await refreshCurrentDiff(after);
+	}
+
+	async function refreshCurrentDiff(diffGroups: DiffGroup[]) {
+		const state = diffState.getCurrentState();
+		const group = diffGroups.find((g) => g.name === pinnedGroup()?.name);
+		const referenceFilePath = state.referenceFilePath ?? undefined;
+		if (state.mode === "folder") {
+			await runFolderDiff(group, referenceFilePath);
+		} else {
+			await runDiff(group, referenceFilePath);
+		}
+	}
+
+	const configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+		if (!e.affectsConfiguration("multiProjectsDiff")) {
+			return;
+		}
+		if (e.affectsConfiguration("multiProjectsDiff.diskCacheMaxSizeMB")) {
+			persistentCache.setLimits(diskCacheMaxBytes());
+		}
+		if (e.affectsConfiguration("multiProjectsDiff.fileDecorations")) {
+			decorationProvider.refreshAll();
+		}
+		if (e.affectsConfiguration("multiProjectsDiff.diffGroups")) {
+			applyDiffGroupSettings().catch((err) =>
+				vscode.window.showErrorMessage(`Failed to apply diffGroups settings: ${err?.message ?? err}`)
+			);
+		} else if (
+			["folderExcludes", "sortBy", "showGitStatus"].some((key) =>
+				e.affectsConfiguration(`multiProjectsDiff.${key}`)
+			) &&
+			diffState.getCurrentState().referenceFilePath
+		) {
+			if (treeView.visible) {
+				getDiffGroups()
+					.then(refreshCurrentDiff)
+					.catch((err) => vscode.window.showErrorMessage(`Failed to refresh the diff: ${err?.message ?? err}`));
+			} else {
+				refreshWhenVisible = true;
+			}
+		}
+	});
+	context.subscriptions.push(configListener);
+
+	// Groups that opted into Explorer badges, and the project a path belongs to among them
+	async function findDecoratedGroup(fsPath: string) {
+		const groups = (await getDiffGroups()).filter((g) => g.decorations);
+		return findMatchingGroup(fsPath, groups);
+	}
+
+	// Counts the sibling projects whose copy of a file differs or is missing, through the caches;
+	// worker tasks run below every interactive run
+	async function computeDriftCounts(fsPath: string): Promise<DriftCounts | null> {
+		const { matchingGroup: group, matchingProject: project } = await findDecoratedGroup(fsPath);
+		if (!group || !project) {
+			return null;
+		}
+		const relativePath = path.relative(project.path, fsPath);
+		const excludes = new Set(workspaceConfig().get<string[]>("folderExcludes") ?? DEFAULT_FOLDER_EXCLUDES);
+		if (relativePath.startsWith("..") || relativePath.split(path.sep).some((seg) => excludes.has(seg))) {
+			return null;
+		}
+		let baseStat: fs.Stats;
+		try {
+			baseStat = await fs.promises.stat(fsPath);
 		} catch {
-			// If we can't read the file, play safe and treat as binary-like to avoid noisy diffs
+			return null;
+		}
+		if (!baseStat.isFile()) {
+			return null;
+		}
+		const normalization = resolveNormalization(group.normalization, relativePath);
+		const timeoutSeconds = workspaceConfig().get<number>("taskTimeoutSeconds", 30);
+		let baseHash: Promise<string | undefined> | undefined;
+		const counts: DriftCounts = { groupName: group.name, differs: 0, missing: 0, total: 0 };
+		await Promise.all(
+			group.workspaces.map(async (ws) => {
+				const compareRelativePath = mapRelativePath(relativePath, project, ws);
+				const comparePath = path.join(ws.path, compareRelativePath);
+				if (isSamePath(comparePath, fsPath)) {
+					return;
+				}
+				counts.total++;
+				let compareMtimeMs = -1;
+				try {
+					compareMtimeMs = (await fs.promises.stat(comparePath)).mtimeMs;
+				} catch {
+					counts.missing++;
+					return;
+				}
+				const cacheParts = {
+					basePath: fsPath,
+					baseMtimeMs: baseStat.mtimeMs,
+					comparePath,
+					compareMtimeMs,
+					ignoreWhitespace: group.ignoreWhiteSpace,
+					structuredDiff: !!group.structuredDiff,
+					normalization: normalizationKey(normalization),
+					largeFileBytes: largeFileBytesOf(group),
+					algorithm: group.diffAlgorithm ?? "myers",
+				};
+				let res = diffCache.get(cacheParts);
+				if (!res) {
+					baseHash ??= contentHashOf(fsPath);
+					res = await fromDiskCache(await baseHash, comparePath, makeOptionsKey(cacheParts));
+				}
+				if (!res) {
+					res = await getWorkerPool().run({
+						currentFilePath: fsPath,
+						compareWorkspaceFilePath: ws.path,
+						compareRelativeFilePath: compareRelativePath,
+						compareWorkspaceName: ws.name,
+						...groupTaskParams(group),
+						normalization,
+					}, {
+						priority: -1,
+						timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+					});
+					toDiskCache(res, makeOptionsKey(cacheParts));
+				}
+				diffCache.set(cacheParts, res);
+				if (!res.fileExists) {
+					counts.missing++;
+				} else if (res.diffLineCount > 0) {
+					counts.differs++;
+				}
+			})
+		);
+		persistentCache.flush().catch(() => {});
+		return counts;
+	}
+
+	const decorationProvider = new DriftDecorationProvider(
+		computeDriftCounts,
+		() => workspaceConfig().get<boolean>("fileDecorations", true)
+	);
+	context.subscriptions.push(
+		decorationProvider,
+		vscode.window.registerFileDecorationProvider(decorationProvider)
+	);
+
+	// A saved file changes its own badge and those of its copies in the other projects
+	const decorationSaveListener = vscode.workspace.onDidSaveTextDocument(async (doc) => {
+		if (doc.uri.scheme !== "file") {
+			return;
+		}
+		const { matchingGroup: group, matchingProject: project } = await findDecoratedGroup(doc.uri.fsPath);
+		if (!group || !project) {
+			return;
+		}
+		const relativePath = path.relative(project.path, doc.uri.fsPath);
+		decorationProvider.invalidate(
+			group.workspaces.map((ws) => path.join(ws.path, mapRelativePath(relativePath, project, ws)))
+		);
+	});
+	context.subscriptions.push(decorationSaveListener);
+
+	// Command: toggleFileDecorations
+	const toggleFileDecorationsCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.toggleFileDecorations",
+		async () => {
+			const config = workspaceConfig();
+			const enabled = !config.get<boolean>("fileDecorations", true);
+			await config.update("fileDecorations", enabled, vscode.ConfigurationTarget.Global);
+			decorationProvider.refreshAll();
+			vscode.window.showInformationMessage(`File drift badges ${enabled ? "enabled" : "disabled"}.`);
+		}
+	);
+	context.subscriptions.push(toggleFileDecorationsCmd);
+
+	// Asks for confirmation before overwriting a target that has uncommitted changes in its repo
+	async function confirmOverwriteOfLocalChanges(
+		targetPaths: Array<{ projectName: string; targetPath: string }>
+	): Promise<boolean> {
+		const dirty: string[] = [];
+		await Promise.all(
+			targetPaths.map(async ({ projectName, targetPath }) => {
+				const snapshot = await getGitStatus(targetPath);
+				if (snapshot && hasUncommittedChanges(gitStatusFor(snapshot, targetPath).fileStatus)) {
+					dirty.push(projectName);
+				}
+			})
+		);
+		if (dirty.length === 0) {
 			return true;
 		}
-		return false;
+		dirty.sort();
+		const choice = await vscode.window.showWarningMessage(
+			`${dirty.join(", ")} ${dirty.length === 1 ? "has" : "have"} uncommitted changes ` +
+				"to this file that will be overwritten.",
+			{ modal: true },
+			"Overwrite"
+		);
+		return choice === "Overwrite";
 	}
 
 	function getEligibleActiveFilePath(): string | null {
-		const editor = vscode.window.activeTextEditor;
 		const activeTab = vscode.window.tabGroups.activeTabGroup?.activeTab;
-		if (!editor || !activeTab) return null;
-		if (activeTab.input instanceof vscode.TabInputTextDiff) return null;
-		if (!(activeTab.input instanceof vscode.TabInputText)) return null;
-		const uri = editor.document.uri;
-		if (uri.scheme !== "file") return null;
+		if (!activeTab) {
+			return null;
+		}
+		// Binary files such as images open in custom editors rather than text editors
+		const input = activeTab.input;
+		if (!(input instanceof vscode.TabInputText) && !(input instanceof vscode.TabInputCustom)) {
+			return null;
+		}
+		const uri = input.uri;
+		if (uri.scheme !== "file") {
+			return null;
+		}
 		const fsPath = uri.fsPath;
-		if (!fs.existsSync(fsPath)) return null;
+		if (!fs.existsSync(fsPath)) {
+			return null;
+		}
 		try {
 			const stat = fs.statSync(fsPath);
-			if (!stat.isFile()) return null;
-			if (stat.size > MAX_WATCH_FILE_BYTES) return null;
+			if (!stat.isFile()) {
+				return null;
+			}
 		} catch {
 			return null;
 		}
-		if (isBinaryLike(fsPath)) return null;
 		return fsPath;
 	}
 
@@ -170,8 +791,11 @@ export function activate(context: vscode.ExtensionContext) {
 		activeRunCts = new vscode.CancellationTokenSource();
 		try {
 			const editor = vscode.window.activeTextEditor;
-			const diffGroups: DiffGroup[] =
-				workspaceConfig.get<DiffGroup[]>("diffGroups") || [];
+			const diffGroups = await getDiffGroups();
+			// The chosen group may predate the last discovery; use its current projects
+			const chosenGroup = chosenGroupName
+				? diffGroups.find((g) => g.name === chosenGroupName.name) ?? chosenGroupName
+				: undefined;
 
 			// Effective reference file path:
 			// 1. Provided referenceFilePath
@@ -179,6 +803,7 @@ export function activate(context: vscode.ExtensionContext) {
 			// 3. Current file (if no previous reference)
 			const previousRef =
 				diffState.getCurrentState().referenceFilePath ?? undefined;
+			const compareRef = diffState.getCurrentState().compareRef ?? undefined;
 			const effectiveReferenceFilePath =
 				referenceFilePath ?? previousRef ?? undefined;
 
@@ -189,43 +814,11 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 
 			// Attempt to find which group the reference file belongs to
-			let matchingGroup: DiffGroup | undefined;
-			let matchingProject: Project | undefined;
-
-			if (chosenGroupName) {
-				matchingGroup = chosenGroupName;
-				// Still need to find the matching project for the reference file
-				const normFilePath = effectiveReferenceFilePath
-					.toLowerCase()
-					.replace(/\\/g, "/");
-				for (const workspace of matchingGroup.workspaces) {
-					const normWorkspacePath = workspace.path
-						.toLowerCase()
-						.replace(/\\/g, "/");
-					if (normFilePath.startsWith(normWorkspacePath)) {
-						matchingProject = workspace;
-						break;
-					}
-				}
-			} else {
-				const normFilePath = effectiveReferenceFilePath
-					.toLowerCase()
-					.replace(/\\/g, "/");
-
-				for (const group of diffGroups) {
-					for (const workspace of group.workspaces) {
-						const normWorkspacePath = workspace.path
-							.toLowerCase()
-							.replace(/\\/g, "/");
-						if (normFilePath.startsWith(normWorkspacePath)) {
-							matchingGroup = group;
-							matchingProject = workspace;
-							break;
-						}
-					}
-					if (matchingGroup) break;
-				}
-			}
+			const { matchingGroup, matchingProject } = findMatchingGroup(
+				effectiveReferenceFilePath,
+				diffGroups,
+				chosenGroup
+			);
 
 			// If we didn't find any group, prompt user to pick from available
 			if (!matchingGroup) {
@@ -241,198 +834,150 @@ export function activate(context: vscode.ExtensionContext) {
 					matchingProject: { name: "", path: "" },
 					matchingGroup: null,
 					referenceFilePath: effectiveReferenceFilePath,
+					mode: "file" as DiffMode,
 				};
 				projectDiffView.refresh(state);
 				diffState.setCurrentState(state);
+				watchComparedFiles();
 				return;
 			}
 
 			// We have a matching group
-			// Derive a relative path for the reference file
-			const relativePath: string = path.relative(
-				matchingProject?.path || "",
-				effectiveReferenceFilePath
-			);
-
-			// Do the comparisons with a view-scoped progress indicator (concurrency-limited)
-			const results: DiffResult[] = await vscode.window.withProgress(
-				{
-					location: { viewId: "multiProjectsDiffView" },
-					title: "Loading diffs...",
-				},
-				async (progress, token) => {
-					const workspaces = matchingGroup!.workspaces;
-					const total = workspaces.length;
-					const out: DiffResult[] = new Array(total);
-					let completed = 0;
-
-					// Progress weighting: 90% for diffing, 10% for post-processing
-					const diffWeight = 90;
-					const perItemInc = total > 0 ? diffWeight / total : diffWeight;
-
-					const workerPath = path.join(__dirname, "diffWorker.js");
-					const poolSize = Math.min(Math.max(1, os.cpus().length - 1), Math.max(1, Math.min(6, total)));
-					let pool: WorkerPool<any, DiffResult> | null = new WorkerPool<any, DiffResult>(workerPath, poolSize);
-					const localCancel = () => {
-						// Best-effort immediate shutdown of workers
-						if (pool) {
-							const p = pool;
-							pool = null;
-							// Fire and forget; awaiting in finally
-							p.close().catch(() => {});
-						}
-					};
-					const disposables: vscode.Disposable[] = [];
-					disposables.push(token.onCancellationRequested(localCancel));
-					// Also cancel if a newer run starts
-					if (activeRunCts) {
-						disposables.push(activeRunCts.token.onCancellationRequested(localCancel));
-					}
-					// Read the reference file once to avoid re-reading it in every worker
-					let baseContent: string | undefined = undefined;
-					try {
-						baseContent = await fs.promises.readFile(effectiveReferenceFilePath, "utf8");
-					} catch {}
-					// Stat the reference file once for cache keying
-					let baseMtimeMs = -1;
-					try {
-						const st = await fs.promises.stat(effectiveReferenceFilePath);
-						baseMtimeMs = st.mtimeMs;
-					} catch {}
-					try {
-						const tasks = workspaces.map(async (ws, idx) => {
-							if (token.isCancellationRequested || (activeRunCts?.token.isCancellationRequested ?? false) || myRunId !== currentRunId) {
-								return undefined as unknown as DiffResult;
-							}
-							const p = pool;
-							if (!p) {
-								return undefined as unknown as DiffResult;
-							}
-							// Resolve compare path for cache and self-compare check
-							const comparePath = path.join(ws.path, relativePath);
-							// Skip self-compare (same file as reference)
-							const isSameFile = (process.platform === "win32" || process.platform === "darwin")
-								? comparePath.toLowerCase() === effectiveReferenceFilePath.toLowerCase()
-								: comparePath === effectiveReferenceFilePath;
-							if (isSameFile) {
-								const zero: DiffResult = {
-									projectName: ws.name,
-									diffLineCount: 0,
-									diffDetail: { added: 0, removed: 0 },
-									compareFilePath: comparePath,
-									fileExists: true,
-									compareWorkspaceFilePath: ws.path,
-								};
-								out[idx] = zero;
-								completed += 1;
-								progress.report({ increment: perItemInc, message: `Skipped ${ws.name}` });
-								return zero;
-							}
-
-							// Compare file mtime for cache keying
-							let compareMtimeMs = -1;
-							try {
-								const st = await fs.promises.stat(comparePath);
-								compareMtimeMs = st.mtimeMs;
-							} catch {}
-
-							// Try cache first
-							const cached = diffCache.get({
-								basePath: effectiveReferenceFilePath,
-								baseMtimeMs,
-								comparePath,
-								compareMtimeMs,
-								ignoreWhitespace: matchingGroup!.ignoreWhiteSpace,
-							});
-							if (cached) {
-								// Adjust project/name/path fields to the current ws
-								const resFromCache: DiffResult = {
-									...cached,
-									projectName: ws.name,
-									compareFilePath: comparePath,
-									compareWorkspaceFilePath: ws.path,
-								};
-								out[idx] = resFromCache;
-								completed += 1;
-								progress.report({ increment: perItemInc, message: `Cached ${ws.name}` });
-								return resFromCache;
+			// Unless a group was picked, the other groups the reference belongs to are compared too
+			const otherMatches = chosenGroup
+				? []
+				: findMatchingGroups(effectiveReferenceFilePath, diffGroups).filter(
+						(m) => m.group !== matchingGroup
+				  );
+
+			// md5 of the reference content, used to cluster identical versions
+			let referenceContentHash: string | undefined;
+
+			const compareWithGroup = (
+				matchingGroup: DiffGroup,
+				matchingProject: Project | undefined
+			): Thenable<DiffResult[]> => {
+				const largeFileBytes = largeFileBytesOf(matchingGroup);
+
+				// Do the comparisons with a view-scoped progress indicator (concurrency-limited)
+				return vscode.window.withProgress(
+					{
+						location: { viewId: "multiProjectsDiffView" },
+						title: "Loading diffs...",
+					},
+					async (progress, token) => {
+						const total = matchingGroup.workspaces.length;
+						const out: DiffResult[] = [];
+
+						// Progress weighting: 90% for diffing, 10% for post-processing
+						const diffWeight = 90;
+						const perItemInc = total > 0 ? diffWeight / total : diffWeight;
+
+						// Also cancel if a newer run starts
+						const taskRun = workerTaskOptions(
+							myRunId,
+							activeRunCts ? [token, activeRunCts.token] : [token]
+						);
+						const timedOut: string[] = [];
+						let baseSize = 0;
+						try {
+							baseSize = (await fs.promises.stat(effectiveReferenceFilePath)).size;
+						} catch {}
+						// Read the reference file once to avoid re-reading it in every worker;
+						// large files are only hashed, since each worker would get its own copy
+						let baseContent: string | undefined = undefined;
+						try {
+							if (
+								(largeFileBytes > 0 && baseSize > largeFileBytes) ||
+								isBinaryLike(effectiveReferenceFilePath)
+							) {
+								referenceContentHash = await hashFile(effectiveReferenceFilePath);
+							} else {
+								baseContent = await fs.promises.readFile(effectiveReferenceFilePath, "utf8");
+								referenceContentHash = md5(baseContent);
 							}
-
-							// Fallback to worker
-							const res = await p.run({
-								currentFilePath: effectiveReferenceFilePath,
-								compareWorkspaceFilePath: ws.path,
-								compareRelativeFilePath: relativePath,
-								compareWorkspaceName: ws.name,
-								ignoreWhiteSpace: matchingGroup!.ignoreWhiteSpace,
-								baseContent,
-							});
-							// Populate cache (even missing files)
-							diffCache.set({
-								basePath: effectiveReferenceFilePath,
-								baseMtimeMs,
-								comparePath,
-								compareMtimeMs,
-								ignoreWhitespace: matchingGroup!.ignoreWhiteSpace,
-							}, res);
-							out[idx] = res;
-							completed += 1;
-							progress.report({ increment: perItemInc, message: `Compared ${ws.name}` });
-							return res;
-						});
-						// Wait for tasks to finish, or cancel early if this run becomes stale
-						await Promise.race([
-							Promise.allSettled(tasks).then(() => undefined),
-							new Promise<void>((resolve) => {
+						} catch {}
+						const disposables: vscode.Disposable[] = [];
+						let results: DiffResult[];
+						try {
+							const compared = compareFileAcrossGroup(
+								getWorkerPool(),
+								matchingGroup,
+								matchingProject ?? { name: "", path: "" },
+								effectiveReferenceFilePath,
+								{
+									compareRef,
+									run: taskRun.options,
+									cache: createCompareCache(),
+									baseContent,
+									baseContentHash: referenceContentHash,
+									onResult: (res) => {
+										out.push(res);
+										progress.report({ increment: perItemInc, message: `Compared ${res.projectName}` });
+									},
+									onError: (ws, err) => {
+										if (err instanceof TaskTimeoutError) {
+											timedOut.push(ws.name);
+										}
+									},
+								}
+							);
+							// Stop waiting as soon as this run is cancelled, keeping what was compared so far
+							const cancelled = new Promise<DiffResult[]>((resolve) => {
+								disposables.push(token.onCancellationRequested(() => resolve([...out])));
 								if (activeRunCts) {
-									const sub = activeRunCts.token.onCancellationRequested(() => {
-										resolve();
-										sub.dispose();
-									});
+									disposables.push(activeRunCts.token.onCancellationRequested(() => resolve([...out])));
 								}
-							}),
-							new Promise<void>((resolve) => {
-								const sub = token.onCancellationRequested(() => {
-									resolve();
-									sub.dispose();
-								});
-							}),
-						]);
-					} finally {
-						try {
-							if (pool) {
-								await pool.close();
-							}
+							});
+							results = await Promise.race([compared, cancelled]);
 						} finally {
-							for (const d of disposables) d.dispose();
+							taskRun.dispose();
+							for (const d of disposables) {
+								d.dispose();
+							}
+							persistentCache.flush().catch(() => {});
+						}
+						if (timedOut.length > 0) {
+							vscode.window.showWarningMessage(
+								`Comparison timed out for ${timedOut.join(", ")}. Increase "multiProjectsDiff.taskTimeoutSeconds" to allow more time.`
+							);
 						}
-					}
 
-					if (token.isCancellationRequested || (activeRunCts?.token.isCancellationRequested ?? false) || myRunId !== currentRunId) {
-						return out.filter(Boolean) as DiffResult[];
-					}
+						if (token.isCancellationRequested || (activeRunCts?.token.isCancellationRequested ?? false) || myRunId !== currentRunId) {
+							return results;
+						}
 
-					// Post-processing: sort and filter before returning
-					progress.report({ message: "Sorting and filtering…" });
-					let results = (out.filter(Boolean) as DiffResult[]);
-					results.sort((a, b) => {
-						if (a.fileExists !== b.fileExists) return a.fileExists ? -1 : 1;
-						return a.diffLineCount - b.diffLineCount;
-					});
+						// Post-processing: sort before returning
+						progress.report({ message: "Sorting…" });
+						results.sort(compareDiffResults(workspaceConfig().get<SortBy>("sortBy", "lines")));
 
-					const isCaseSensitiveFileSystem = process.platform !== "win32" && process.platform !== "darwin";
-					results = results.filter((r) => {
-						if (isCaseSensitiveFileSystem) {
-							return r.compareFilePath !== effectiveReferenceFilePath;
-						} else {
-							return r.compareFilePath.toLowerCase() !== effectiveReferenceFilePath.toLowerCase();
+						progress.report({ increment: 100 - Math.min(100, results.length * perItemInc), message: "Finalizing…" });
+						return results;
+					}
+				);
+			};
+			const [results, ...otherResults] = await Promise.all([
+				compareWithGroup(matchingGroup, matchingProject),
+				...otherMatches.map((m) => compareWithGroup(m.group, m.project)),
+			]);
+			const groupResults: GroupResults[] | null =
+				otherMatches.length > 0 && matchingProject
+					? [
+							{ group: matchingGroup, project: matchingProject, results },
+							...otherMatches.map((m, i) => ({ ...m, results: otherResults[i] })),
+					  ]
+					: null;
+
+			if (myRunId === currentRunId && isGitStatusEnabled()) {
+				await Promise.all(
+					[results, ...otherResults].flat().map(async (res) => {
+						const snapshot = await getGitStatus(res.compareFilePath);
+						if (snapshot) {
+							res.git = gitStatusFor(snapshot, res.compareFilePath);
 						}
-					});
-
-					progress.report({ increment: 100 - Math.min(100, completed * perItemInc), message: "Finalizing…" });
-					return results;
-				}
-			);
+					})
+				);
+			}
 
 			// If a newer run has started, don't update UI with stale data
 			if (myRunId !== currentRunId) {
@@ -445,10 +990,16 @@ export function activate(context: vscode.ExtensionContext) {
 				matchingGroup,
 				matchingProject,
 				referenceFilePath: effectiveReferenceFilePath,
+				mode: "file" as DiffMode,
+				compareRef,
+				referenceContentHash,
+				groupResults,
+				groupPinned: !!chosenGroup,
 			};
 
 			projectDiffView.refresh(state);
 			diffState.setCurrentState(state);
+			watchComparedFiles();
 		} catch (error) {
 			// Handle any errors
 			console.error(error);
@@ -467,6 +1018,260 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	}
 
+	// Folder mode runner: compares every file below a reference folder recursively
+	async function runFolderDiff(
+		chosenGroupName?: DiffGroup,
+		referenceFolderPath?: string
+	) {
+		const myRunId = ++currentRunId;
+		if (activeRunCts) {
+			activeRunCts.cancel();
+			activeRunCts.dispose();
+		}
+		activeRunCts = new vscode.CancellationTokenSource();
+		const runCts = activeRunCts;
+		const isStale = () =>
+			runCts.token.isCancellationRequested || myRunId !== currentRunId;
+		try {
+			const diffGroups = await getDiffGroups();
+			// The chosen group may predate the last discovery; use its current projects
+			const chosenGroup = chosenGroupName
+				? diffGroups.find((g) => g.name === chosenGroupName.name) ?? chosenGroupName
+				: undefined;
+			const excludes: string[] =
+				workspaceConfig().get<string[]>("folderExcludes") ?? DEFAULT_FOLDER_EXCLUDES;
+
+			const effectiveFolderPath =
+				referenceFolderPath ?? diffState.getCurrentState().referenceFilePath ?? undefined;
+			const compareRef = diffState.getCurrentState().compareRef ?? undefined;
+			if (!effectiveFolderPath) {
+				vscode.window.showErrorMessage("No reference folder available.");
+				return;
+			}
+
+			const { matchingGroup, matchingProject } = findMatchingGroup(
+				effectiveFolderPath,
+				diffGroups,
+				chosenGroup
+			);
+
+			if (!matchingGroup) {
+				if (diffGroups.length === 0) {
+					vscode.window.showWarningMessage(
+						"No matching group for current folder."
+					);
+				}
+				const state = {
+					filePath: effectiveFolderPath,
+					results: [],
+					folderResults: [],
+					matchingProject: { name: "", path: "" },
+					matchingGroup: null,
+					referenceFilePath: effectiveFolderPath,
+					mode: "folder" as DiffMode,
+				};
+				projectDiffView.refresh(state);
+				diffState.setCurrentState(state);
+				watchComparedFiles();
+				return;
+			}
+
+			const folderResults: FolderProjectResult[] = await vscode.window.withProgress(
+				{
+					location: { viewId: "multiProjectsDiffView" },
+					title: "Loading folder diffs...",
+				},
+				async (progress, token) => {
+					const taskRun = workerTaskOptions(myRunId, [token, runCts.token]);
+					const disposables: vscode.Disposable[] = [];
+					let compared = 0;
+					let timedOut = 0;
+					try {
+						const results = compareFolderAcrossGroup(
+							getWorkerPool(),
+							matchingGroup,
+							matchingProject ?? { name: "", path: "" },
+							effectiveFolderPath,
+							{
+								compareRef,
+								excludes,
+								run: taskRun.options,
+								cache: createCompareCache(),
+								onResult: () => {
+									compared++;
+									progress.report({ message: `Compared ${compared} file(s)` });
+								},
+								onError: (_ws, err) => {
+									if (err instanceof TaskTimeoutError) {
+										timedOut++;
+									}
+								},
+							}
+						);
+						// Stop waiting as soon as this run is cancelled; listing folders is not cancellable
+						const cancelled = new Promise<FolderProjectResult[]>((resolve) => {
+							disposables.push(token.onCancellationRequested(() => resolve([])));
+							disposables.push(runCts.token.onCancellationRequested(() => resolve([])));
+						});
+						return await Promise.race([results, cancelled]);
+					} finally {
+						taskRun.dispose();
+						for (const d of disposables) {
+							d.dispose();
+						}
+						persistentCache.flush().catch(() => {});
+						if (timedOut > 0) {
+							vscode.window.showWarningMessage(
+								`Comparison timed out for ${timedOut} file(s). Increase "multiProjectsDiff.taskTimeoutSeconds" to allow more time.`
+							);
+						}
+					}
+				}
+			);
+
+			if (!isStale() && isGitStatusEnabled()) {
+				await Promise.all(
+					folderResults.map(async (res) => {
+						const snapshot = await getGitStatus(res.compareFolderPath);
+						if (!snapshot) {
+							return;
+						}
+						res.git = gitStatusFor(snapshot, res.compareFolderPath);
+						for (const file of res.files) {
+							file.git = gitStatusFor(snapshot, file.compareFilePath);
+						}
+					})
+				);
+			}
+
+			if (isStale()) {
+				return;
+			}
+
+			const state = {
+				filePath: effectiveFolderPath,
+				results: [],
+				folderResults,
+				matchingGroup,
+				matchingProject,
+				referenceFilePath: effectiveFolderPath,
+				mode: "folder" as DiffMode,
+				compareRef,
+				groupPinned: !!chosenGroup,
+			};
+			projectDiffView.refresh(state);
+			diffState.setCurrentState(state);
+			watchComparedFiles();
+		} catch (error) {
+			console.error(error);
+			if (myRunId === currentRunId) {
+				vscode.window.showErrorMessage(
+					"An error occurred while processing the folder diff."
+				);
+			}
+			projectDiffView.refresh({
+				filePath: null,
+				results: [],
+				matchingGroup: null,
+				referenceFilePath: null,
+			});
+		}
+	}
+
+	// Read-only documents with a file's content at a git revision, used by openDiff
+	const gitRefContentProvider = vscode.workspace.registerTextDocumentContentProvider(
+		GIT_REF_SCHEME,
+		{
+			async provideTextDocumentContent(uri) {
+				const { ref } = JSON.parse(uri.query) as { ref: string };
+				const read = await readFileAtRef(uri.fsPath, ref);
+				return read.status === "ok" ? read.content : "";
+			},
+		}
+	);
+	context.subscriptions.push(gitRefContentProvider);
+
+	// Version clusters toggle, remembered across sessions
+	const GROUP_BY_VERSION_KEY = "multiProjectsDiff.groupByVersion";
+	async function setGroupByVersion(enabled: boolean) {
+		projectDiffView.setGroupByVersion(enabled);
+		await context.globalState.update(GROUP_BY_VERSION_KEY, enabled);
+		await vscode.commands.executeCommand("setContext", GROUP_BY_VERSION_KEY, enabled);
+	}
+	setGroupByVersion(context.globalState.get<boolean>(GROUP_BY_VERSION_KEY, false));
+
+	const groupByVersionCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.groupByVersion",
+		() => setGroupByVersion(true)
+	);
+	context.subscriptions.push(groupByVersionCmd);
+
+	const ungroupVersionsCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.ungroupVersions",
+		() => setGroupByVersion(false)
+	);
+	context.subscriptions.push(ungroupVersionsCmd);
+
+	// Command: setClusterAsReference
+	const setClusterAsReferenceCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.setClusterAsReference",
+		async (item: VersionClusterItem) => {
+			const member = item?.cluster.results[0];
+			if (!member) {
+				return;
+			}
+			await runDiff(pinnedGroup(), member.compareFilePath);
+		}
+	);
+	context.subscriptions.push(setClusterAsReferenceCmd);
+
+	// Command: compareAgainstGitRef
+	const compareAgainstGitRefCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.compareAgainstGitRef",
+		async () => {
+			const custom = "$(edit) Enter a branch, tag or commit...";
+			const current = diffState.getCurrentState().compareRef;
+			const picked = await vscode.window.showQuickPick(
+				["HEAD", "origin/main", "origin/master", custom],
+				{
+					placeHolder: current
+						? `Currently comparing against ${current}`
+						: "Compare each project's file at this git revision",
+				}
+			);
+			if (!picked) {
+				return;
+			}
+			let ref: string | undefined = picked;
+			if (picked === custom) {
+				ref = await vscode.window.showInputBox({
+					prompt: "Git revision to compare against in each project",
+					placeHolder: "e.g. origin/main, v1.2.0, HEAD~1",
+					value: current ?? "",
+				});
+			}
+			ref = ref?.trim();
+			if (!ref) {
+				return;
+			}
+			diffState.setCompareRef(ref);
+			await vscode.commands.executeCommand("setContext", "multiProjectsDiff.compareRefActive", true);
+			await vscode.commands.executeCommand("multiProjectsDiff.refreshDiff");
+		}
+	);
+	context.subscriptions.push(compareAgainstGitRefCmd);
+
+	// Command: compareAgainstWorkingTree
+	const compareAgainstWorkingTreeCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.compareAgainstWorkingTree",
+		async () => {
+			diffState.setCompareRef(null);
+			await vscode.commands.executeCommand("setContext", "multiProjectsDiff.compareRefActive", false);
+			await vscode.commands.executeCommand("multiProjectsDiff.refreshDiff");
+		}
+	);
+	context.subscriptions.push(compareAgainstWorkingTreeCmd);
+
 	// Watch toggle commands
 	const enableWatchCmd = vscode.commands.registerCommand(
 		"multiProjectsDiff.enableWatch",
@@ -479,66 +1284,368 @@ export function activate(context: vscode.ExtensionContext) {
 			);
 			vscode.window.setStatusBarMessage("Multi Projects Diff: Watch ON", 2000);
 
-			const eligiblePath = getEligibleActiveFilePath();
-			if (eligiblePath) {
-				await vscode.commands.executeCommand(
-					"multiProjectsDiff.setActiveAsReference"
-				);
+			const eligiblePath = getEligibleActiveFilePath();
+			if (eligiblePath) {
+				await vscode.commands.executeCommand(
+					"multiProjectsDiff.setActiveAsReference"
+				);
+			}
+		}
+	);
+	context.subscriptions.push(enableWatchCmd);
+
+	const disableWatchCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.disableWatch",
+		async () => {
+			watchEnabled = false;
+			await vscode.commands.executeCommand(
+				"setContext",
+				"multiProjectsDiff.watchEnabled",
+				false
+			);
+			vscode.window.setStatusBarMessage("Multi Projects Diff: Watch OFF", 2000);
+		}
+	);
+	context.subscriptions.push(disableWatchCmd);
+
+	// React to active editor changes when watching is enabled
+	const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(() => {
+		if (!watchEnabled || !treeView.visible) return;
+		const eligiblePath = getEligibleActiveFilePath();
+		if (!eligiblePath) return;
+		vscode.commands.executeCommand("multiProjectsDiff.setActiveAsReference");
+	});
+	context.subscriptions.push(activeEditorListener);
+
+	// Tabs of binary files (e.g. the image preview) do not change the active text editor
+	const activeTabListener = vscode.window.tabGroups.onDidChangeTabs((e) => {
+		if (!watchEnabled || !treeView.visible) {
+			return;
+		}
+		const activeTab = e.changed.find((tab) => tab.isActive);
+		if (!activeTab || !(activeTab.input instanceof vscode.TabInputCustom)) {
+			return;
+		}
+		if (!getEligibleActiveFilePath()) {
+			return;
+		}
+		vscode.commands.executeCommand("multiProjectsDiff.setActiveAsReference");
+	});
+	context.subscriptions.push(activeTabListener);
+
+	// Refresh when the view becomes visible (if watching)
+	const visibilityListener = treeView.onDidChangeVisibility((e) => {
+		if (watchEnabled && e.visible) {
+			refreshWhenVisible = false;
+			vscode.commands.executeCommand("multiProjectsDiff.setActiveAsReference");
+		} else if (refreshWhenVisible && e.visible) {
+			refreshWhenVisible = false;
+			getDiffGroups().then(refreshCurrentDiff);
+		}
+	});
+	context.subscriptions.push(visibilityListener);
+
+	// Watches the reference and compared files of the current comparison, or the compared folders
+	// in folder mode, so that changes made outside the editor (scripts, git pull) update the
+	// affected rows
+	let compareWatchers: vscode.Disposable[] = [];
+	const changedComparePaths = new Set<string>();
+	let compareChangeTimer: NodeJS.Timeout | undefined;
+	context.subscriptions.push({
+		dispose: () => {
+			if (compareChangeTimer) {
+				clearTimeout(compareChangeTimer);
+			}
+			compareWatchers.forEach((d) => d.dispose());
+		},
+	});
+
+	// Every group's results of the current file comparison
+	function currentGroupResults(): GroupResults[] {
+		const state = diffState.getCurrentState();
+		if (state.groupResults) {
+			return state.groupResults;
+		}
+		if (!state.matchingGroup || !state.matchingProject) {
+			return [];
+		}
+		return [{ group: state.matchingGroup, project: state.matchingProject, results: state.results }];
+	}
+
+	function queueChangedPath(filePath: string) {
+		changedComparePaths.add(filePath);
+		if (compareChangeTimer) {
+			clearTimeout(compareChangeTimer);
+		}
+		compareChangeTimer = setTimeout(() => {
+			updateChangedResults().catch((err) => console.error(err));
+		}, 300);
+	}
+
+	function watchComparedFiles() {
+		compareWatchers.forEach((d) => d.dispose());
+		compareWatchers = [];
+		const state = diffState.getCurrentState();
+		// Targets at a git revision do not change on disk
+		if (!state.referenceFilePath || state.compareRef) {
+			return;
+		}
+		if (state.mode === "folder") {
+			const excludes = new Set(workspaceConfig().get<string[]>("folderExcludes") ?? DEFAULT_FOLDER_EXCLUDES);
+			const folders = [state.referenceFilePath, ...(state.folderResults ?? []).map((r) => r.compareFolderPath)];
+			for (const folder of folders) {
+				const watcher = vscode.workspace.createFileSystemWatcher(
+					new vscode.RelativePattern(vscode.Uri.file(folder), "**/*")
+				);
+				const onChange = (uri: vscode.Uri) => {
+					if (!path.relative(folder, uri.fsPath).split(path.sep).some((seg) => excludes.has(seg))) {
+						queueChangedPath(uri.fsPath);
+					}
+				};
+				watcher.onDidCreate(onChange);
+				watcher.onDidChange(onChange);
+				watcher.onDidDelete(onChange);
+				compareWatchers.push(watcher);
+			}
+			return;
+		}
+		const paths = new Set([
+			state.referenceFilePath,
+			...currentGroupResults().flatMap((g) => g.results.map((r) => r.compareFilePath)),
+		]);
+		for (const filePath of paths) {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(vscode.Uri.file(path.dirname(filePath)), path.basename(filePath))
+			);
+			const onChange = () => queueChangedPath(filePath);
+			watcher.onDidCreate(onChange);
+			watcher.onDidChange(onChange);
+			watcher.onDidDelete(onChange);
+			compareWatchers.push(watcher);
+		}
+	}
+
+	async function addGitStatus(result: DiffResult): Promise<DiffResult> {
+		if (isGitStatusEnabled()) {
+			const snapshot = await getGitStatus(result.compareFilePath);
+			if (snapshot) {
+				result.git = gitStatusFor(snapshot, result.compareFilePath);
+			}
+		}
+		return result;
+	}
+
+	function recompareRunOptions(): RunOptions {
+		const timeoutSeconds = workspaceConfig().get<number>("taskTimeoutSeconds", 30);
+		return {
+			priority: currentRunId,
+			timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined,
+		};
+	}
+
+	// Unsaved editor contents of both sides; results computed from them are not cached
+	type EditorContents = Pick<CompareOptions, "baseContent" | "compareContent">;
+
+	function recompareOptions(contents?: EditorContents): CompareOptions {
+		const run = recompareRunOptions();
+		return contents ? { ...contents, run } : { cache: createCompareCache(), run };
+	}
+
+	// Compares the reference with one target again, through the caches like a full run
+	async function recompareTarget(
+		group: DiffGroup,
+		project: Project,
+		referenceFilePath: string,
+		previous: DiffResult,
+		contents?: EditorContents
+	): Promise<DiffResult> {
+		const ws = group.workspaces.find((w) => w.path === previous.compareWorkspaceFilePath);
+		if (!ws) {
+			return previous;
+		}
+		const [updated] = await compareFileAcrossGroup(
+			getWorkerPool(),
+			{ ...group, workspaces: [ws] },
+			project,
+			referenceFilePath,
+			recompareOptions(contents)
+		);
+		return updated ? addGitStatus(updated) : previous;
+	}
+
+	// Compares one row of the current folder comparison again
+	async function recompareFolderRow(
+		group: DiffGroup,
+		project: Project,
+		referenceFolderPath: string,
+		target: FolderProjectResult,
+		previous: DiffResult,
+		contents?: EditorContents
+	): Promise<DiffResult> {
+		const ws = group.workspaces.find((w) => w.path === target.compareWorkspaceFilePath);
+		if (!ws || previous.relativePath === undefined) {
+			return previous;
+		}
+		const updated = await compareFolderFile(
+			getWorkerPool(),
+			group,
+			project,
+			referenceFolderPath,
+			{ ws, folder: target.compareFolderPath },
+			previous.relativePath,
+			recompareOptions(contents)
+		);
+		return addGitStatus(updated);
+	}
+
+	// Files added to or removed from the compared folders change the rows themselves, so the
+	// folder is compared again; otherwise only the rows of changed files are compared again
+	async function updateChangedFolderRows(paths: string[], referenceFolderPath: string) {
+		const state = diffState.getCurrentState();
+		const group = state.matchingGroup;
+		const project = state.matchingProject;
+		if (!group || !project) {
+			return;
+		}
+		const rows = (state.folderResults ?? []).flatMap((target) =>
+			target.files.filter((file) => !file.onlyInTarget).map((file) => ({ target, file }))
+		);
+		const exists = (p: string) => fs.promises.stat(p).then((st) => st.isFile(), () => false);
+		const affected = new Set<(typeof rows)[number]>();
+		for (const p of paths) {
+			const asTarget = rows.filter((r) => isSamePath(p, r.file.compareFilePath));
+			const asReference = rows.filter((r) => r.file.baseFilePath && isSamePath(p, r.file.baseFilePath));
+			if (asTarget.length === 0 && (asReference.length === 0 || !(await exists(p)))) {
+				await refreshCurrentDiff(await getDiffGroups());
+				return;
 			}
+			[...asTarget, ...asReference].forEach((r) => affected.add(r));
 		}
-	);
-	context.subscriptions.push(enableWatchCmd);
 
-	const disableWatchCmd = vscode.commands.registerCommand(
-		"multiProjectsDiff.disableWatch",
-		async () => {
-			watchEnabled = false;
-			await vscode.commands.executeCommand(
-				"setContext",
-				"multiProjectsDiff.watchEnabled",
-				false
-			);
-			vscode.window.setStatusBarMessage("Multi Projects Diff: Watch OFF", 2000);
+		const runId = currentRunId;
+		const updates = await Promise.all(
+			[...affected].map(async ({ target, file }) => ({
+				target,
+				previous: file,
+				updated: await recompareFolderRow(group, project, referenceFolderPath, target, file),
+			}))
+		);
+		// A full run started meanwhile and will show its own results
+		if (runId !== currentRunId || updates.length === 0) {
+			return;
 		}
-	);
-	context.subscriptions.push(disableWatchCmd);
+		for (const { target, previous, updated } of updates) {
+			const index = target.files.indexOf(previous);
+			if (index !== -1) {
+				target.files[index] = updated;
+			}
+		}
+		persistentCache.flush().catch(() => {});
+		projectDiffView.redraw();
+	}
 
-	// React to active editor changes when watching is enabled
-	const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(() => {
-		if (!watchEnabled || !treeView.visible) return;
-		const eligiblePath = getEligibleActiveFilePath();
-		if (!eligiblePath) return;
-		vscode.commands.executeCommand("multiProjectsDiff.setActiveAsReference");
-	});
-	context.subscriptions.push(activeEditorListener);
+	// A changed reference affects every row, so it is diffed again; otherwise only the rows of
+	// changed targets are compared again and the tree is redrawn
+	async function updateChangedResults() {
+		const paths = [...changedComparePaths];
+		changedComparePaths.clear();
+		const state = diffState.getCurrentState();
+		const referenceFilePath = state.referenceFilePath;
+		if (!referenceFilePath || paths.length === 0) {
+			return;
+		}
+		if (!treeView.visible) {
+			refreshWhenVisible = true;
+			return;
+		}
+		if (state.mode === "folder") {
+			await updateChangedFolderRows(paths, referenceFilePath);
+			return;
+		}
+		if (paths.some((p) => isSamePath(p, referenceFilePath))) {
+			await refreshCurrentDiff(await getDiffGroups());
+			return;
+		}
 
-	// Refresh when the view becomes visible (if watching)
-	const visibilityListener = treeView.onDidChangeVisibility((e) => {
-		if (watchEnabled && e.visible) {
-			vscode.commands.executeCommand("multiProjectsDiff.setActiveAsReference");
+		const runId = currentRunId;
+		const groups = currentGroupResults();
+		const updates = await Promise.all(
+			groups.flatMap((g) =>
+				g.results
+					.filter((r) => paths.some((p) => isSamePath(p, r.compareFilePath)))
+					.map(async (r) => ({
+						results: g.results,
+						previous: r,
+						updated: await recompareTarget(g.group, g.project, referenceFilePath, r),
+					}))
+			)
+		);
+		// A full run started meanwhile and will show its own results
+		if (runId !== currentRunId || updates.length === 0) {
+			return;
 		}
-	});
-	context.subscriptions.push(visibilityListener);
+		// The view shows the same result arrays as the state, so they are updated in place
+		const sortBy = workspaceConfig().get<SortBy>("sortBy", "lines");
+		for (const { results, previous, updated } of updates) {
+			const index = results.indexOf(previous);
+			if (index !== -1) {
+				results[index] = updated;
+			}
+		}
+		for (const g of groups) {
+			g.results.sort(compareDiffResults(sortBy));
+		}
+		persistentCache.flush().catch(() => {});
+		projectDiffView.redraw();
+	}
 
 	// Command: Refresh Diff (only refreshes against current reference)
 	const refreshDiffCmd = vscode.commands.registerCommand(
 		"multiProjectsDiff.refreshDiff",
 		async () => {
 			const state = diffState.getCurrentState();
-			await runDiff(
-				state.matchingGroup || undefined,
-				state.referenceFilePath || undefined
-			);
+			if (state.mode === "folder") {
+				await runFolderDiff(pinnedGroup(), state.referenceFilePath || undefined);
+				return;
+			}
+			await runDiff(pinnedGroup(), state.referenceFilePath || undefined);
 		}
 	);
 	context.subscriptions.push(refreshDiffCmd);
 
+	// Command: Compare Folder (from the Explorer context menu or the command palette)
+	const compareFolderCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.compareFolder",
+		async (uri?: vscode.Uri) => {
+			let folderUri = uri;
+			if (!folderUri) {
+				const picked = await vscode.window.showOpenDialog({
+					canSelectFiles: false,
+					canSelectFolders: true,
+					canSelectMany: false,
+					defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+					openLabel: "Compare Folder",
+				});
+				folderUri = picked?.[0];
+			}
+			if (!folderUri) {
+				return;
+			}
+			if (folderUri.scheme !== "file") {
+				vscode.window.showWarningMessage("Only local folders can be compared.");
+				return;
+			}
+			await vscode.commands.executeCommand("multiProjectsDiffView.focus");
+			await runFolderDiff(undefined, folderUri.fsPath);
+		}
+	);
+	context.subscriptions.push(compareFolderCmd);
+
 	// Command: Set Active File as Reference
 	const setActiveAsReferenceCmd = vscode.commands.registerCommand(
 		"multiProjectsDiff.setActiveAsReference",
 		async () => {
-			const editor = vscode.window.activeTextEditor;
-			if (!editor) {
+			if (!vscode.window.tabGroups.activeTabGroup?.activeTab) {
 				vscode.window.showErrorMessage("No active editor found.");
 				return;
 			}
@@ -565,11 +1672,7 @@ export function activate(context: vscode.ExtensionContext) {
 				return;
 			}
 
-			const state = diffState.getCurrentState();
-			await runDiff(
-				state.matchingGroup || undefined,
-				item.diff.compareFilePath
-			);
+			await runDiff(pinnedGroup(), item.diff.compareFilePath);
 		}
 	);
 	context.subscriptions.push(setReferenceFileCmd);
@@ -577,7 +1680,8 @@ export function activate(context: vscode.ExtensionContext) {
 	// Command: Open Split-Screen Diff
 	const openDiffCmd = vscode.commands.registerCommand(
 		"multiProjectsDiff.openDiff",
-		async (diffResult: DiffResult) => {
+		// With a hunk, the diff editor opens scrolled to it
+		async (diffResult: DiffResult, hunk?: Hunk) => {
 			if (!diffResult?.fileExists) {
 				vscode.window.showErrorMessage(
 					`File does not exist in project ${diffResult?.projectName || ""}.`
@@ -591,8 +1695,44 @@ export function activate(context: vscode.ExtensionContext) {
 				return;
 			}
 
-			const leftUri = vscode.Uri.file(state.referenceFilePath);
-			const rightUri = vscode.Uri.file(diffResult.compareFilePath);
+			const leftUri = vscode.Uri.file(
+				diffResult.baseFilePath ?? state.referenceFilePath
+			);
+			// Targets compared against a git ref open the file content at that ref
+			const atRef = diffResult.compareRef && !diffResult.compareRefFallback
+				? diffResult.compareRef
+				: undefined;
+
+			// Binary files: images get VS Code's side-by-side image compare, anything else
+			// (or a binary at a git revision, which has no file to show) a summary
+			if (diffResult.binary) {
+				if (!atRef && isImageFile(diffResult.compareFilePath)) {
+					await vscode.commands.executeCommand(
+						"vscode.diff",
+						leftUri,
+						vscode.Uri.file(diffResult.compareFilePath),
+						`Diff: ${state.matchingProject?.name || "Reference"} ↔ ${diffResult.projectName} (${path.basename(leftUri.fsPath)})`
+					);
+					return;
+				}
+				const { binary } = diffResult;
+				const choice = await vscode.window.showInformationMessage(
+					`${path.basename(diffResult.compareFilePath)} in ${diffResult.projectName} is ` +
+						`${binary.identical ? "identical to" : "different from"} the reference ` +
+						`(${formatBytes(binary.size)} vs ${formatBytes(binary.baseSize)}).`,
+					...(atRef ? [] : ["Open File"])
+				);
+				if (choice === "Open File") {
+					await vscode.commands.executeCommand(
+						"vscode.open",
+						vscode.Uri.file(diffResult.compareFilePath)
+					);
+				}
+				return;
+			}
+			const rightUri = atRef
+				? toGitRefUri(diffResult.compareFilePath, atRef)
+				: vscode.Uri.file(diffResult.compareFilePath);
 
 			// Get the project name for the reference file
 			const referenceProjectName = state.matchingProject?.name || "Reference";
@@ -603,7 +1743,8 @@ export function activate(context: vscode.ExtensionContext) {
 				rightUri,
 				`Diff: ${referenceProjectName} ↔ ${
 					diffResult.projectName
-				} (${path.basename(leftUri.fsPath)})`
+				}${atRef ? ` @ ${atRef}` : ""} (${path.basename(leftUri.fsPath)})`,
+				hunk ? { selection: new vscode.Range(hunk.targetStart, 0, hunk.targetStart, 0) } : undefined
 			);
 		}
 	);
@@ -614,7 +1755,8 @@ export function activate(context: vscode.ExtensionContext) {
 		"multiProjectsDiff.createAndCopyFile",
 		async (item: DiffItem) => {
 			const state = diffState.getCurrentState();
-			const referenceFilePath = state.referenceFilePath;
+			const referenceFilePath =
+				item.diff.baseFilePath ?? state.referenceFilePath;
 
 			if (!referenceFilePath) {
 				vscode.window.showErrorMessage(
@@ -660,8 +1802,8 @@ export function activate(context: vscode.ExtensionContext) {
 				return;
 			}
 
-			const doc = await vscode.workspace.openTextDocument(filePath);
-			await vscode.window.showTextDocument(doc);
+			// vscode.open picks the right editor, e.g. the image preview for binary files
+			await vscode.commands.executeCommand("vscode.open", vscode.Uri.file(filePath));
 		}
 	);
 	context.subscriptions.push(openFileCmd);
@@ -690,7 +1832,7 @@ export function activate(context: vscode.ExtensionContext) {
 	const pickGroupCmd = vscode.commands.registerCommand(
 		"multiProjectsDiff.pickGroup",
 		async (item: TopDiffItem) => {
-			const diffGroups: DiffGroup[] = workspaceConfig.get("diffGroups") || [];
+			const diffGroups = await getDiffGroups();
 			const state = diffState.getCurrentState();
 
 			const chosenGroupName = await vscode.window.showQuickPick(
@@ -720,6 +1862,10 @@ export function activate(context: vscode.ExtensionContext) {
 				});
 				return;
 			}
+			if (state.mode === "folder") {
+				runFolderDiff(matchingGroup, state.referenceFilePath || undefined);
+				return;
+			}
 			runDiff(matchingGroup, state.referenceFilePath || undefined);
 		}
 	);
@@ -730,7 +1876,7 @@ export function activate(context: vscode.ExtensionContext) {
 		"multiProjectsDiff.copyContent",
 		async (item: DiffItem) => {
 			const state = diffState.getCurrentState();
-			const sourcePath = state.referenceFilePath;
+			const sourcePath = item.diff.baseFilePath ?? state.referenceFilePath;
 			const targetPath = item.diff.compareFilePath;
 
 			if (!sourcePath) {
@@ -745,6 +1891,13 @@ export function activate(context: vscode.ExtensionContext) {
 				return;
 			}
 
+			const proceed = await confirmOverwriteOfLocalChanges([
+				{ projectName: item.diff.projectName, targetPath },
+			]);
+			if (!proceed) {
+				return;
+			}
+
 			try {
 				fs.copyFileSync(sourcePath, targetPath);
 				vscode.window.showInformationMessage(
@@ -759,6 +1912,638 @@ export function activate(context: vscode.ExtensionContext) {
 	);
 	context.subscriptions.push(copyContentCmd);
 
+	// Let the user pick hunks between the reference and a target and apply them as an undoable edit
+	async function pickAndApplyHunks(item: DiffItem, direction: HunkDirection) {
+		const state = diffState.getCurrentState();
+		const referencePath = item?.diff?.baseFilePath ?? state.referenceFilePath;
+		if (!referencePath || !item?.diff?.fileExists) {
+			vscode.window.showErrorMessage("No reference or target file available.");
+			return;
+		}
+
+		// Open as documents so unsaved editor changes are taken into account
+		const [referenceDoc, targetDoc] = await Promise.all([
+			vscode.workspace.openTextDocument(vscode.Uri.file(referencePath)),
+			vscode.workspace.openTextDocument(vscode.Uri.file(item.diff.compareFilePath)),
+		]);
+		const hunks = computeHunks(referenceDoc.getText(), targetDoc.getText());
+		if (hunks.length === 0) {
+			vscode.window.showInformationMessage(
+				`No differences with ${item.diff.projectName}.`
+			);
+			return;
+		}
+
+		const picks = hunks.map((hunk) => {
+			const { label, preview } = describeHunk(hunk);
+			// Lines removed/added in the file that receives the hunk
+			const [removed, added] =
+				direction === "push"
+					? [hunk.targetLineCount, hunk.referenceLineCount]
+					: [hunk.referenceLineCount, hunk.targetLineCount];
+			return {
+				label,
+				description: `-${removed} +${added}`,
+				detail: preview,
+				hunk,
+			};
+		});
+		const selected = await vscode.window.showQuickPick(picks, {
+			canPickMany: true,
+			matchOnDetail: true,
+			placeHolder:
+				direction === "push"
+					? `Select hunks to push from the reference to ${item.diff.projectName}`
+					: `Select hunks to pull from ${item.diff.projectName} into the reference`,
+		});
+		if (!selected || selected.length === 0) {
+			return;
+		}
+
+		const document = direction === "push" ? targetDoc : referenceDoc;
+		const edit = new vscode.WorkspaceEdit();
+		addHunkEdits(edit, document, selected.map((s) => s.hunk), direction);
+		const applied = await vscode.workspace.applyEdit(edit);
+		if (!applied) {
+			vscode.window.showErrorMessage("Failed to apply the selected hunks.");
+			return;
+		}
+
+		const choice = await vscode.window.showInformationMessage(
+			`Applied ${selected.length} hunk(s) to ${path.basename(document.uri.fsPath)} (unsaved).`,
+			"Save",
+			"Open"
+		);
+		if (choice === "Save") {
+			await document.save();
+		} else if (choice === "Open") {
+			await vscode.window.showTextDocument(document);
+		}
+	}
+
+	// Command: pushHunks
+	const pushHunksCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.pushHunks",
+		(item: DiffItem) => pickAndApplyHunks(item, "push")
+	);
+	context.subscriptions.push(pushHunksCmd);
+
+	// Command: pullHunks
+	const pullHunksCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.pullHunks",
+		(item: DiffItem) => pickAndApplyHunks(item, "pull")
+	);
+	context.subscriptions.push(pullHunksCmd);
+
+	// Applies a single hunk from the tree; it is looked up again in case either file was edited since
+	// Compares the project of an applied hunk again, from the edited documents, and redraws its
+	// row with the new counts and position
+	async function updateAppliedRow(item: HunkItem, contents: EditorContents) {
+		const diff = item.parent.diff;
+		const state = diffState.getCurrentState();
+		const runId = currentRunId;
+		// Rows at a git revision keep their counts; the hunks are those of the working tree
+		if (state.compareRef) {
+			projectDiffView.refreshItem(item.parent);
+			return;
+		}
+		if (state.mode === "folder") {
+			const target = state.folderResults?.find((r) => r.files.includes(diff));
+			if (target && state.matchingGroup && state.matchingProject && state.referenceFilePath) {
+				const updated = await recompareFolderRow(
+					state.matchingGroup,
+					state.matchingProject,
+					state.referenceFilePath,
+					target,
+					diff,
+					contents
+				);
+				const index = target.files.indexOf(diff);
+				if (runId === currentRunId && index !== -1) {
+					target.files[index] = updated;
+					projectDiffView.redraw();
+					return;
+				}
+			}
+		} else {
+			const g = currentGroupResults().find((r) => r.results.includes(diff));
+			if (g) {
+				const updated = await recompareTarget(g.group, g.project, item.referenceFilePath, diff, contents);
+				const index = g.results.indexOf(diff);
+				if (runId === currentRunId && index !== -1) {
+					g.results[index] = updated;
+					g.results.sort(compareDiffResults(workspaceConfig().get<SortBy>("sortBy", "lines")));
+					projectDiffView.redraw();
+					return;
+				}
+			}
+		}
+		projectDiffView.refreshItem(item.parent);
+	}
+
+	async function applyHunkItem(item: HunkItem, direction: HunkDirection) {
+		if (!item?.hunk) {
+			return;
+		}
+		const diff = item.parent.diff;
+		const [referenceDoc, targetDoc] = await Promise.all([
+			vscode.workspace.openTextDocument(vscode.Uri.file(item.referenceFilePath)),
+			vscode.workspace.openTextDocument(vscode.Uri.file(diff.compareFilePath)),
+		]);
+		const hunk = findSameHunk(computeHunks(referenceDoc.getText(), targetDoc.getText()), item.hunk);
+		if (!hunk) {
+			vscode.window.showErrorMessage(
+				`This change no longer applies to ${diff.projectName}; the files were edited.`
+			);
+			projectDiffView.refreshItem(item.parent);
+			return;
+		}
+
+		const document = direction === "push" ? targetDoc : referenceDoc;
+		const edit = new vscode.WorkspaceEdit();
+		addHunkEdits(edit, document, [hunk], direction);
+		if (!(await vscode.workspace.applyEdit(edit))) {
+			vscode.window.showErrorMessage("Failed to apply the hunk.");
+			return;
+		}
+		await updateAppliedRow(item, { baseContent: referenceDoc.getText(), compareContent: targetDoc.getText() });
+		vscode.window.setStatusBarMessage(
+			`Multi Projects Diff: ${direction === "push" ? "pushed to" : "pulled from"} ${diff.projectName} ` +
+				`(${path.basename(document.uri.fsPath)} unsaved)`,
+			3000
+		);
+	}
+
+	// Command: pushHunk
+	const pushHunkCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.pushHunk",
+		(item: HunkItem) => applyHunkItem(item, "push")
+	);
+	context.subscriptions.push(pushHunkCmd);
+
+	// Command: pullHunk
+	const pullHunkCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.pullHunk",
+		(item: HunkItem) => applyHunkItem(item, "pull")
+	);
+	context.subscriptions.push(pullHunkCmd);
+
+	function countLines(text: string): number {
+		if (text.length === 0) {
+			return 0;
+		}
+		const lines = text.split(/\r\n|\r|\n/).length;
+		return /(\r\n|\r|\n)$/.test(text) ? lines - 1 : lines;
+	}
+
+	// Targets for a bulk push: the selected rows, or every differing/missing file of the current run
+	function collectPushCandidates(
+		item?: vscode.TreeItem,
+		selected?: readonly vscode.TreeItem[]
+	): DiffResult[] {
+		const picked = selected && selected.length > 0 ? selected : item ? [item] : [];
+		const fromSelection = picked
+			.filter((i): i is DiffItem => i instanceof DiffItem)
+			.map((i) => i.diff);
+		if (fromSelection.length > 0) {
+			return fromSelection.filter((d) => !d.onlyInTarget);
+		}
+		const state = diffState.getCurrentState();
+		// A project in several of the reference's groups is pushed to once
+		const all =
+			state.mode === "folder"
+				? (state.folderResults ?? []).flatMap((r) => r.files)
+				: currentGroupResults()
+						.flatMap((g) => g.results)
+						.filter((d, i, list) => list.findIndex((o) => isSamePath(o.compareFilePath, d.compareFilePath)) === i);
+		return all.filter(
+			(d) => !d.onlyInTarget && (!d.fileExists || d.diffLineCount > 0)
+		);
+	}
+
+	// Command: pushToProjects
+	const pushToProjectsCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.pushToProjects",
+		async (item?: vscode.TreeItem, selected?: readonly vscode.TreeItem[]) => {
+			const state = diffState.getCurrentState();
+			const candidates = collectPushCandidates(item, selected);
+			if (candidates.length === 0) {
+				vscode.window.showInformationMessage("Nothing to push: all projects are up to date.");
+				return;
+			}
+
+			// Build the preview: new vs overwritten and line counts per target
+			const sourceTexts = new Map<string, string>();
+			const previewItems: Array<vscode.QuickPickItem & { target: PushTarget; isNew: boolean }> = [];
+			for (const diff of candidates) {
+				const sourcePath = diff.baseFilePath ?? state.referenceFilePath;
+				if (!sourcePath) {
+					continue;
+				}
+				const label = diff.relativePath
+					? `${diff.projectName}: ${diff.relativePath}`
+					: diff.projectName;
+				const target: PushTarget = {
+					projectName: diff.projectName,
+					sourcePath,
+					targetPath: diff.compareFilePath,
+				};
+				// Binary files are previewed by size instead of line counts
+				if (isBinaryLike(sourcePath)) {
+					let sourceSize: number;
+					try {
+						sourceSize = (await fs.promises.stat(sourcePath)).size;
+					} catch {
+						continue;
+					}
+					const targetSize = diff.fileExists
+						? diff.binary?.size ?? (await fs.promises.stat(diff.compareFilePath).then((st) => st.size, () => null))
+						: null;
+					previewItems.push({
+						label,
+						description: targetSize === null ? "new file" : "overwrite",
+						detail:
+							targetSize === null
+								? `${formatBytes(sourceSize)} · ${diff.compareFilePath}`
+								: `${formatBytes(targetSize)} → ${formatBytes(sourceSize)} · ${diff.compareFilePath}`,
+						picked: true,
+						target,
+						isNew: targetSize === null,
+					});
+					continue;
+				}
+				let sourceText = sourceTexts.get(sourcePath);
+				if (sourceText === undefined) {
+					try {
+						sourceText = await fs.promises.readFile(sourcePath, "utf8");
+					} catch {
+						continue;
+					}
+					sourceTexts.set(sourcePath, sourceText);
+				}
+				let targetText: string | null = null;
+				try {
+					targetText = await fs.promises.readFile(diff.compareFilePath, "utf8");
+				} catch {}
+				const sourceLines = countLines(sourceText);
+				previewItems.push({
+					label,
+					description: targetText === null ? "new file" : "overwrite",
+					detail:
+						targetText === null
+							? `${sourceLines} lines · ${diff.compareFilePath}`
+							: `${countLines(targetText)} → ${sourceLines} lines · ${diff.compareFilePath}`,
+					picked: true,
+					target,
+					isNew: targetText === null,
+				});
+			}
+			if (previewItems.length === 0) {
+				vscode.window.showErrorMessage("Reference file does not exist.");
+				return;
+			}
+
+			const chosen = await vscode.window.showQuickPick(previewItems, {
+				canPickMany: true,
+				matchOnDescription: true,
+				matchOnDetail: true,
+				placeHolder: "Review the files that will be written by the push",
+			});
+			if (!chosen || chosen.length === 0) {
+				return;
+			}
+			const created = chosen.filter((c) => c.isNew).length;
+			const confirm = await vscode.window.showWarningMessage(
+				`Push the reference to ${chosen.length} file(s)? ` +
+					`${chosen.length - created} will be overwritten and ${created} created. ` +
+					"You can undo this with \"Undo Last Push\".",
+				{ modal: true },
+				"Push"
+			);
+			if (confirm !== "Push") {
+				return;
+			}
+			const overwritten = chosen.filter((c) => !c.isNew);
+			const proceed = await confirmOverwriteOfLocalChanges(
+				overwritten.map((c) => ({ projectName: c.label, targetPath: c.target.targetPath }))
+			);
+			if (!proceed) {
+				return;
+			}
+			// Files are copied on disk, so unsaved editor changes would be pushed from or lost in
+			// the targets; save them first
+			const pushedPaths = chosen.flatMap((c) => [c.target.sourcePath, c.target.targetPath]);
+			const dirty = vscode.workspace.textDocuments.filter(
+				(doc) =>
+					doc.isDirty &&
+					doc.uri.scheme === "file" &&
+					pushedPaths.some((p) => isSamePath(p, doc.uri.fsPath))
+			);
+			if (dirty.length > 0) {
+				const save = await vscode.window.showWarningMessage(
+					`${dirty.length} file(s) of this push have unsaved changes: ` +
+						`${dirty.map((doc) => path.basename(doc.uri.fsPath)).join(", ")}. Save them before pushing?`,
+					{ modal: true },
+					"Save and Push"
+				);
+				if (save !== "Save and Push") {
+					return;
+				}
+				const saved = await Promise.all(dirty.map((doc) => doc.save()));
+				if (saved.some((ok) => !ok)) {
+					vscode.window.showErrorMessage("Could not save every file; the push was cancelled.");
+					return;
+				}
+			}
+
+			try {
+				const op = await pushHistory.push(chosen.map((c) => c.target));
+				vscode.window.showInformationMessage(
+					`Pushed the reference to ${op.entries.length} file(s).`
+				);
+			} catch (err: any) {
+				vscode.window.showErrorMessage(
+					err instanceof PushRollbackError
+						? `Push failed and could not be fully rolled back; use Undo Last Push to retry: ${err.message}`
+						: `Push failed and was rolled back: ${err.message}`
+				);
+			}
+			await vscode.commands.executeCommand(
+				"setContext",
+				"multiProjectsDiff.canUndoPush",
+				pushHistory.canUndo
+			);
+			await vscode.commands.executeCommand("multiProjectsDiff.refreshDiff");
+		}
+	);
+	context.subscriptions.push(pushToProjectsCmd);
+
+	// Command: undoLastPush
+	const undoLastPushCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.undoLastPush",
+		async () => {
+			try {
+				const op = await pushHistory.undoLast();
+				if (!op) {
+					vscode.window.showInformationMessage("There is no push to undo.");
+				} else {
+					vscode.window.showInformationMessage(
+						`Restored ${op.entries.length} file(s) from the last push.`
+					);
+				}
+			} catch (err: any) {
+				vscode.window.showErrorMessage(`Failed to undo the last push: ${err.message}`);
+			}
+			await vscode.commands.executeCommand(
+				"setContext",
+				"multiProjectsDiff.canUndoPush",
+				pushHistory.canUndo
+			);
+			await vscode.commands.executeCommand("multiProjectsDiff.refreshDiff");
+		}
+	);
+	context.subscriptions.push(undoLastPushCmd);
+
+	// Command: clearDiffCache
+	const clearDiffCacheCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.clearDiffCache",
+		async () => {
+			diffCache.clear();
+			try {
+				await persistentCache.clear();
+				vscode.window.showInformationMessage("Diff cache cleared.");
+			} catch (err: any) {
+				vscode.window.showErrorMessage(`Failed to clear the diff cache: ${err.message}`);
+			}
+		}
+	);
+	context.subscriptions.push(clearDiffCacheCmd);
+
+	// Command: exportReport
+	const exportReportCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.exportReport",
+		async () => {
+			const state = diffState.getCurrentState();
+			const hasResults =
+				state.mode === "folder" ? (state.folderResults?.length ?? 0) > 0 : state.results.length > 0;
+			if (!state.matchingGroup || !state.referenceFilePath || !hasResults) {
+				vscode.window.showErrorMessage("No diff results to export. Run a comparison first.");
+				return;
+			}
+			const formats: Array<vscode.QuickPickItem & { format: ReportFormat; ext: string; filter: string }> = [
+				{ label: "Markdown", format: "markdown", ext: "md", filter: "Markdown" },
+				{ label: "HTML", description: "Standalone page", format: "html", ext: "html", filter: "HTML" },
+				{ label: "JSON", description: "Stable output for diffing between runs", format: "json", ext: "json", filter: "JSON" },
+			];
+			const picked = await vscode.window.showQuickPick(formats, { placeHolder: "Report format" });
+			if (!picked) {
+				return;
+			}
+			const diffChoice = await vscode.window.showQuickPick(["Summary only", "Include unified diffs"], {
+				placeHolder: "Include the unified diff of every differing file?",
+			});
+			if (!diffChoice) {
+				return;
+			}
+			const group = state.matchingGroup;
+			const target = await vscode.window.showSaveDialog({
+				defaultUri: vscode.Uri.file(
+					path.join(
+						vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir(),
+						`diff-report-${group.name.replace(/[^\w.-]+/g, "-")}.${picked.ext}`
+					)
+				),
+				filters: { [picked.filter]: [picked.ext] },
+			});
+			if (!target) {
+				return;
+			}
+			try {
+				const report = await buildReport({
+					mode: state.mode,
+					groupName: group.name,
+					referenceProject: state.matchingProject?.name ?? "",
+					referencePath: state.referenceFilePath,
+					compareRef: state.compareRef ?? undefined,
+					results: state.results,
+					folderResults: state.folderResults,
+					includeDiffs: diffChoice === "Include unified diffs",
+				});
+				await fs.promises.writeFile(target.fsPath, renderReport(report, picked.format), "utf8");
+			} catch (err: any) {
+				vscode.window.showErrorMessage(`Failed to export the report: ${err.message}`);
+				return;
+			}
+			const open = await vscode.window.showInformationMessage(
+				`Report saved to ${path.basename(target.fsPath)}.`,
+				"Open"
+			);
+			if (open === "Open") {
+				if (picked.format === "html") {
+					await vscode.env.openExternal(target);
+				} else {
+					await vscode.window.showTextDocument(target);
+				}
+			}
+		}
+	);
+	context.subscriptions.push(exportReportCmd);
+
+	// Command: showSimilarityMatrix
+	const showSimilarityMatrixCmd = vscode.commands.registerCommand(
+		"multiProjectsDiff.showSimilarityMatrix",
+		async () => {
+			const state = diffState.getCurrentState();
+			const group = state.matchingGroup;
+			const referenceProject = state.matchingProject;
+			if (state.mode !== "file" || !group || !referenceProject?.path || !state.referenceFilePath) {
+				vscode.window.showErrorMessage("Compare a file first; the matrix covers the current file in every project.");
+				return;
+			}
+			const relativePath = path.relative(referenceProject.path, state.referenceFilePath);
+			const projects = group.workspaces;
+			const files = await Promise.all(
+				projects.map(async (ws) => {
+					const rel = mapRelativePath(relativePath, referenceProject, ws);
+					let mtimeMs = -1;
+					try {
+						mtimeMs = (await fs.promises.stat(path.join(ws.path, rel))).mtimeMs;
+					} catch {}
+					return { ws, rel, fullPath: path.join(ws.path, rel), mtimeMs };
+				})
+			);
+			const normalization = resolveNormalization(group.normalization, relativePath);
+			const optionParts = {
+				ignoreWhitespace: group.ignoreWhiteSpace,
+				structuredDiff: !!group.structuredDiff,
+				normalization: normalizationKey(normalization),
+				largeFileBytes: largeFileBytesOf(group),
+				algorithm: group.diffAlgorithm ?? "myers",
+			};
+			const hashes = new Map<number, Promise<string | undefined>>();
+			const hashOf = (i: number) => {
+				let hash = hashes.get(i);
+				if (!hash) {
+					hash = contentHashOf(files[i].fullPath);
+					hashes.set(i, hash);
+				}
+				return hash;
+			};
+
+			const cells: Array<Array<MatrixCell | null>> = projects.map(() => projects.map(() => null));
+			const completed = await vscode.window.withProgress(
+				{
+					location: vscode.ProgressLocation.Notification,
+					title: "Computing similarity matrix...",
+					cancellable: true,
+				},
+				async (progress, token) => {
+					const taskRun = workerTaskOptions(currentRunId, [token]);
+					const pairs = projects.length * (projects.length - 1);
+					const compareCell = async (row: number, col: number) => {
+						const base = files[row];
+						const target = files[col];
+						if (base.mtimeMs < 0 || target.mtimeMs < 0) {
+							cells[row][col] = { diffLineCount: 0, added: 0, removed: 0, missing: true };
+							return;
+						}
+						const cacheParts = {
+							basePath: base.fullPath,
+							baseMtimeMs: base.mtimeMs,
+							comparePath: target.fullPath,
+							compareMtimeMs: target.mtimeMs,
+							...optionParts,
+						};
+						// Memory cache first; it also answers (col, row) from a stored (row, col)
+						let res = diffCache.get(cacheParts);
+						if (!res) {
+							res = await fromDiskCache(await hashOf(row), target.fullPath, makeOptionsKey(cacheParts));
+						}
+						if (!res) {
+							res = await getWorkerPool().run({
+								currentFilePath: base.fullPath,
+								compareWorkspaceFilePath: target.ws.path,
+								compareRelativeFilePath: target.rel,
+								compareWorkspaceName: target.ws.name,
+								...groupTaskParams(group),
+								normalization,
+							}, taskRun.options);
+							toDiskCache(res, makeOptionsKey(cacheParts));
+						}
+						diffCache.set(cacheParts, res);
+						cells[row][col] = {
+							diffLineCount: res.diffLineCount,
+							added: res.diffDetail.added,
+							removed: res.diffDetail.removed,
+							missing: !res.fileExists,
+							similarity: res.stats?.similarity,
+							approximate: res.approximate,
+							binary: !!res.binary,
+						};
+						progress.report({ increment: 100 / pairs });
+					};
+					try {
+						// Upper triangle first, so every lower cell is a reversed cache hit
+						for (const lower of [false, true]) {
+							const pairsToCompare: Array<[number, number]> = [];
+							for (let row = 0; row < projects.length; row++) {
+								for (let col = 0; col < projects.length; col++) {
+									if (row !== col && (row > col) === lower) {
+										pairsToCompare.push([row, col]);
+									}
+								}
+							}
+							// A failed pair becomes an error cell instead of failing the matrix
+							const settled = await Promise.allSettled(pairsToCompare.map(([row, col]) => compareCell(row, col)));
+							if (token.isCancellationRequested) {
+								return false;
+							}
+							settled.forEach((s, i) => {
+								if (s.status === "rejected") {
+									const [row, col] = pairsToCompare[i];
+									cells[row][col] = {
+										diffLineCount: 0,
+										added: 0,
+										removed: 0,
+										missing: false,
+										error: errorMessage(s.reason),
+									};
+									progress.report({ increment: 100 / pairs });
+								}
+							});
+						}
+						return true;
+					} finally {
+						taskRun.dispose();
+						persistentCache.flush().catch(() => {});
+					}
+				}
+			);
+			if (!completed) {
+				return;
+			}
+
+			SimilarityMatrixPanel.show(
+				{
+					groupName: group.name,
+					relativePath,
+					projects: projects.map((ws) => ws.name),
+					cells,
+				},
+				(row, col) => {
+					vscode.commands.executeCommand(
+						"vscode.diff",
+						vscode.Uri.file(files[row].fullPath),
+						vscode.Uri.file(files[col].fullPath),
+						`Diff: ${projects[row].name} ↔ ${projects[col].name} (${path.basename(files[row].fullPath)})`
+					);
+				}
+			);
+		}
+	);
+	context.subscriptions.push(showSimilarityMatrixCmd);
+	context.subscriptions.push({ dispose: () => SimilarityMatrixPanel.disposeCurrent() });
+
 	// Command: openTerminal
 	const openTerminalCmd = vscode.commands.registerCommand(
 		"multiProjectsDiff.openTerminal",
@@ -772,5 +2557,7 @@ export function activate(context: vscode.ExtensionContext) {
 }
 
 export function deactivate() {
-	// Cleanup, if needed
+	const pool = sharedPool;
+	sharedPool = undefined;
+	return pool?.close();
 }
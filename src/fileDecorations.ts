@@ -0,0 +1,158 @@
+import * as vscode from "vscode";
+
+// Sibling projects whose copy of a file differs or is missing
+export interface DriftCounts {
+	groupName: string;
+	differs: number;
+	missing: number;
+	// Sibling projects compared
+	total: number;
+}
+
+// Recompute entries older than this when VS Code asks for them again
+const ENTRY_TTL_MS = 60_000;
+// Files compared at the same time; each one queues a comparison per sibling project
+const MAX_CONCURRENT_FILES = 2;
+// Batch decoration changes so the Explorer repaints once per burst
+const CHANGE_DEBOUNCE_MS = 300;
+const MAX_ENTRIES = 5000;
+
+function toDecoration(counts: DriftCounts): vscode.FileDecoration | undefined {
+	const drifted = counts.differs + counts.missing;
+	if (drifted === 0) {
+		return undefined;
+	}
+	const parts: string[] = [];
+	if (counts.differs > 0) {
+		parts.push(`differs in ${counts.differs}`);
+	}
+	if (counts.missing > 0) {
+		parts.push(`missing in ${counts.missing}`);
+	}
+	return new vscode.FileDecoration(
+		drifted > 99 ? "99" : String(drifted),
+		`${counts.groupName}: ${parts.join(", ")} of ${counts.total} project(s)`,
+		new vscode.ThemeColor(counts.missing > 0 ? "list.errorForeground" : "list.warningForeground")
+	);
+}
+
+/**
+ * Badges files with the number of sibling projects that differ or lack the file.
+ * Counts are computed in the background, a few files at a time, and served from memory
+ * until they expire or are invalidated.
+ */
+export class DriftDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+	private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+	readonly onDidChangeFileDecorations = this.changeEmitter.event;
+
+	private entries = new Map<string, { counts: DriftCounts | null; computedAt: number }>();
+	private queue: string[] = [];
+	private queued = new Set<string>();
+	private active = 0;
+	private changed = new Set<string>();
+	private changeTimer: NodeJS.Timeout | undefined;
+	// Bumped by refreshAll() so computations started before it are discarded
+	private generation = 0;
+
+	constructor(
+		private compute: (fsPath: string) => Promise<DriftCounts | null>,
+		private isEnabled: () => boolean
+	) {}
+
+	provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+		if (uri.scheme !== "file" || !this.isEnabled()) {
+			return undefined;
+		}
+		const entry = this.entries.get(uri.fsPath);
+		if (!entry || Date.now() - entry.computedAt > ENTRY_TTL_MS) {
+			this.enqueue(uri.fsPath);
+		}
+		return entry?.counts ? toDecoration(entry.counts) : undefined;
+	}
+
+	// Expires the given files; those VS Code still shows are recomputed when it asks again,
+	// keeping their old badge meanwhile
+	invalidate(fsPaths: string[]) {
+		for (const fsPath of fsPaths) {
+			const entry = this.entries.get(fsPath);
+			if (entry) {
+				entry.computedAt = 0;
+				this.markChanged(fsPath);
+			}
+		}
+	}
+
+	// Forgets everything; VS Code asks again for the files it shows
+	refreshAll() {
+		this.generation++;
+		this.entries.clear();
+		this.queue = [];
+		this.queued.clear();
+		this.changeEmitter.fire(undefined);
+	}
+
+	dispose() {
+		if (this.changeTimer) {
+			clearTimeout(this.changeTimer);
+		}
+		this.queue = [];
+		this.queued.clear();
+		this.changeEmitter.dispose();
+	}
+
+	private enqueue(fsPath: string) {
+		if (this.queued.has(fsPath)) {
+			return;
+		}
+		this.queued.add(fsPath);
+		this.queue.push(fsPath);
+		this.pump();
+	}
+
+	private pump() {
+		while (this.active < MAX_CONCURRENT_FILES && this.queue.length > 0) {
+			const fsPath = this.queue.shift()!;
+			const generation = this.generation;
+			this.active++;
+			this.compute(fsPath)
+				.catch(() => null)
+				.then((counts) => {
+					if (generation !== this.generation) {
+						return;
+					}
+					const previous = this.entries.get(fsPath);
+					this.entries.delete(fsPath);
+					this.entries.set(fsPath, { counts, computedAt: Date.now() });
+					this.evictIfNeeded();
+					if (JSON.stringify(previous?.counts ?? null) !== JSON.stringify(counts)) {
+						this.markChanged(fsPath);
+					}
+				})
+				.finally(() => {
+					this.queued.delete(fsPath);
+					this.active--;
+					this.pump();
+				});
+		}
+	}
+
+	private markChanged(fsPath: string) {
+		this.changed.add(fsPath);
+		if (this.changeTimer) {
+			return;
+		}
+		this.changeTimer = setTimeout(() => {
+			this.changeTimer = undefined;
+			const uris = [...this.changed].map((p) => vscode.Uri.file(p));
+			this.changed.clear();
+			this.changeEmitter.fire(uris);
+		}, CHANGE_DEBOUNCE_MS);
+	}
+
+	private evictIfNeeded() {
+		while (this.entries.size > MAX_ENTRIES) {
+			const oldest = this.entries.keys().next().value as string;
+			this.entries.delete(oldest);
+		}
+	}
+}
@@ -0,0 +1,110 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+
+export const BINARY_EXTS = new Set([
+	"png","jpg","jpeg","gif","bmp","ico","webp",
+	"mp3","wav","flac","mp4","avi","mov","mkv",
+	"zip","rar","7z","gz","bz2","xz","tar",
+	"exe","dll","so","dylib","pdf",
+	"woff","woff2","ttf","otf","eot","wasm","jar","class"
+]);
+
+const IMAGE_EXTS = new Set(["png", "jpg", "jpeg", "gif", "bmp", "ico", "webp", "svg"]);
+
+// Files VS Code can show side by side in its image preview
+export function isImageFile(fsPath: string): boolean {
+	return IMAGE_EXTS.has(path.extname(fsPath).toLowerCase().replace(/^\./, ""));
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	const units = ["KB", "MB", "GB"];
+	let value = bytes / 1024;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+export function hasBinaryExtension(fsPath: string): boolean {
+	const ext = path.extname(fsPath).toLowerCase().replace(/^\./, "");
+	return !!ext && BINARY_EXTS.has(ext);
+}
+
+export function isBinaryLike(fsPath: string): boolean {
+	if (hasBinaryExtension(fsPath)) {
+		return true;
+	}
+	try {
+		const fd = fs.openSync(fsPath, "r");
+		try {
+			const len = 512;
+			const buf = Buffer.allocUnsafe(len);
+			const bytes = fs.readSync(fd, buf, 0, len, 0);
+			let suspicious = 0;
+			for (let i = 0; i < bytes; i++) {
+				const c = buf[i];
+				if (c === 0) return true; // NUL byte
+				// allow tab/newline/carriage return
+				if (c === 9 || c === 10 || c === 13) continue;
+				// printable ASCII range
+				if (c >= 32 && c <= 126) continue;
+				// allow some UTF-8 bytes (>127) as text; count as suspicious but tolerate up to 30%
+				suspicious++;
+			}
+			if (bytes > 0 && suspicious / bytes > 0.3) return true;
+		} finally {
+			fs.closeSync(fd);
+		}
+	} catch {
+		// If we can't read the file, play safe and treat as binary-like to avoid noisy diffs
+		return true;
+	}
+	return false;
+}
+
+export function isCaseInsensitiveFs(): boolean {
+	return process.platform === "win32" || process.platform === "darwin";
+}
+
+export function isSamePath(a: string, b: string): boolean {
+	return isCaseInsensitiveFs() ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+// Whether `fsPath` is `folder` or below it, by whole path segments: /a/b-v2 is not inside /a/b
+export function isSameOrInside(fsPath: string, folder: string): boolean {
+	const fold = (p: string) => (isCaseInsensitiveFs() ? p.toLowerCase() : p);
+	const rel = path.relative(fold(folder), fold(fsPath));
+	return !rel.startsWith("..") && !path.isAbsolute(rel);
+}
+
+/**
+ * md5 of a file, streamed so large files are never held in memory.
+ * Matches `md5()` of the file's text for valid UTF-8.
+ */
+export function hashFile(fsPath: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const hash = crypto.createHash("md5");
+		fs.createReadStream(fsPath)
+			.on("data", (chunk) => hash.update(chunk))
+			.on("error", reject)
+			.on("end", () => resolve(hash.digest("hex")));
+	});
+}
+
+/**
+ * md5 of a file's content, matching the hashes computed by the diff worker.
+ * Returns undefined when the file cannot be read.
+ */
+export async function contentHashOf(fsPath: string): Promise<string | undefined> {
+	try {
+		return await hashFile(fsPath);
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,70 @@
+import { promises as fsp } from "fs";
+import * as path from "path";
+import { DiffResult, FolderProjectResult } from "./types";
+
+export type FolderFileStatus = "identical" | "differs" | "missing" | "onlyInTarget" | "error";
+
+export const DEFAULT_FOLDER_EXCLUDES = [".git", "node_modules", "out", "dist", ".vscode-test"];
+
+/**
+ * Recursively lists the files below `root`, returned as paths relative to `root`.
+ * Directories whose name is in `excludes` are skipped.
+ * Returns an empty list when `root` does not exist or is not a directory.
+ */
+export async function listFilesRecursive(
+	root: string,
+	excludes: string[] = DEFAULT_FOLDER_EXCLUDES
+): Promise<string[]> {
+	const excluded = new Set(excludes);
+	const out: string[] = [];
+
+	async function walk(dir: string, rel: string): Promise<void> {
+		let entries;
+		try {
+			entries = await fsp.readdir(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			const entryRel = rel ? path.join(rel, entry.name) : entry.name;
+			if (entry.isDirectory()) {
+				if (!excluded.has(entry.name)) {
+					await walk(path.join(dir, entry.name), entryRel);
+				}
+			} else if (entry.isFile()) {
+				out.push(entryRel);
+			}
+		}
+	}
+
+	await walk(root, "");
+	out.sort();
+	return out;
+}
+
+export function getFolderFileStatus(res: DiffResult): FolderFileStatus {
+	if (res.error) {
+		return "error";
+	}
+	if (res.onlyInTarget) {
+		return "onlyInTarget";
+	}
+	if (!res.fileExists) {
+		return "missing";
+	}
+	return res.diffLineCount === 0 ? "identical" : "differs";
+}
+
+export function summarizeFolderResult(res: FolderProjectResult): Record<FolderFileStatus, number> {
+	const summary: Record<FolderFileStatus, number> = {
+		identical: 0,
+		differs: 0,
+		missing: 0,
+		onlyInTarget: 0,
+		error: 0,
+	};
+	for (const file of res.files) {
+		summary[getFolderFileStatus(file)]++;
+	}
+	return summary;
+}
@@ -0,0 +1,264 @@
+import { execFile } from "child_process";
+import { promises as fsp } from "fs";
+import * as path from "path";
+import { GitFileStatus, GitStatusInfo } from "./types";
+import { isCaseInsensitiveFs } from "./fileUtils";
+
+// Why a git read could not be served from the requested revision
+export type GitRefFallback = "notRepo" | "missingRef";
+
+export type GitReadResult<T = string> =
+	| { status: "ok"; content: T }
+	| { status: "missingFile" }
+	| { status: GitRefFallback };
+
+export function runGit(cwd: string, args: string[]): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile(
+			"git",
+			args,
+			{ cwd, maxBuffer: 256 * 1024 * 1024, windowsHide: true },
+			(err, stdout) => {
+				if (err) {
+					reject(err);
+				} else {
+					resolve(stdout);
+				}
+			}
+		);
+	});
+}
+
+// Like runGit, but returns stdout as raw bytes (for binary file contents)
+function runGitBuffer(cwd: string, args: string[]): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		execFile(
+			"git",
+			args,
+			{ cwd, maxBuffer: 256 * 1024 * 1024, windowsHide: true, encoding: "buffer" },
+			(err, stdout) => {
+				if (err) {
+					reject(err);
+				} else {
+					resolve(stdout);
+				}
+			}
+		);
+	});
+}
+
+/**
+ * Returns the closest existing directory at or above `dir`, so git can run from it
+ * even when the compared file or folder is missing.
+ */
+async function nearestExistingDir(dir: string): Promise<string | null> {
+	let current = dir;
+	for (;;) {
+		try {
+			if ((await fsp.stat(current)).isDirectory()) {
+				return current;
+			}
+		} catch {}
+		const parent = path.dirname(current);
+		if (parent === current) {
+			return null;
+		}
+		current = parent;
+	}
+}
+
+function toGitPath(p: string): string {
+	return p.split(path.sep).join("/");
+}
+
+async function resolveRevisionCwd(
+	targetDir: string,
+	ref: string
+): Promise<{ cwd: string } | { status: GitRefFallback }> {
+	const cwd = await nearestExistingDir(targetDir);
+	if (!cwd) {
+		return { status: "notRepo" };
+	}
+	try {
+		await runGit(cwd, ["rev-parse", "--is-inside-work-tree"]);
+	} catch {
+		return { status: "notRepo" };
+	}
+	try {
+		await runGit(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+	} catch {
+		return { status: "missingRef" };
+	}
+	return { cwd };
+}
+
+async function readAtRef<T>(
+	filePath: string,
+	ref: string,
+	show: (cwd: string, args: string[]) => Promise<T>
+): Promise<GitReadResult<T>> {
+	const resolved = await resolveRevisionCwd(path.dirname(filePath), ref);
+	if ("status" in resolved) {
+		return resolved;
+	}
+	// "<rev>:./<path>" is resolved relative to the working directory
+	const spec = `${ref}:./${toGitPath(path.relative(resolved.cwd, filePath))}`;
+	try {
+		await runGit(resolved.cwd, ["cat-file", "-e", spec]);
+	} catch {
+		return { status: "missingFile" };
+	}
+	const content = await show(resolved.cwd, ["show", spec]);
+	return { status: "ok", content };
+}
+
+/**
+ * Reads a file as it exists at `ref` in the repository that contains it.
+ * Works offline against the local repository only.
+ */
+export function readFileAtRef(filePath: string, ref: string): Promise<GitReadResult> {
+	return readAtRef(filePath, ref, runGit);
+}
+
+/**
+ * Like readFileAtRef, but returns the raw bytes, for binary files.
+ */
+export function readBinaryFileAtRef(filePath: string, ref: string): Promise<GitReadResult<Buffer>> {
+	return readAtRef(filePath, ref, runGitBuffer);
+}
+
+/**
+ * Lists the files below `folderPath` at `ref`, relative to `folderPath`.
+ * Returns null when the folder is not in a git repository or the ref is missing.
+ */
+export async function listFilesAtRef(folderPath: string, ref: string): Promise<string[] | null> {
+	const resolved = await resolveRevisionCwd(folderPath, ref);
+	if ("status" in resolved) {
+		return null;
+	}
+	const rel = toGitPath(path.relative(resolved.cwd, folderPath));
+	const args = ["ls-tree", "-r", "-z", "--name-only", ref, "--", rel ? `./${rel}` : "."];
+	let out: string;
+	try {
+		out = await runGit(resolved.cwd, args);
+	} catch {
+		return [];
+	}
+	return out
+		.split("\0")
+		.filter((l) => l.length > 0)
+		.map((l) => path.normalize(rel ? path.relative(rel, l) : l))
+		.sort();
+}
+
+export interface GitStatusSnapshot {
+	branch: string | null;
+	hasUpstream: boolean;
+	ahead: number;
+	behind: number;
+	// Keyed by normalized absolute path; only files with local changes are listed
+	files: Map<string, GitFileStatus>;
+}
+
+function statusKey(filePath: string): string {
+	const p = path.normalize(filePath);
+	return isCaseInsensitiveFs() ? p.toLowerCase() : p;
+}
+
+/**
+ * Branch information plus the status of one file from a snapshot.
+ */
+export function gitStatusFor(snapshot: GitStatusSnapshot, filePath: string): GitStatusInfo {
+	return {
+		branch: snapshot.branch,
+		hasUpstream: snapshot.hasUpstream,
+		ahead: snapshot.ahead,
+		behind: snapshot.behind,
+		fileStatus: snapshot.files.get(statusKey(filePath)),
+	};
+}
+
+export function hasUncommittedChanges(status: GitFileStatus | undefined): boolean {
+	return !!status && (status.staged || status.modified || status.untracked || status.conflicted);
+}
+
+/**
+ * Reads branch, ahead/behind and the local changes below `targetPath` (a file or folder)
+ * from `git status`. Returns null when `targetPath` is not inside a git repository.
+ */
+export async function getGitStatus(targetPath: string): Promise<GitStatusSnapshot | null> {
+	let isDir = false;
+	try {
+		isDir = (await fsp.stat(targetPath)).isDirectory();
+	} catch {}
+	const cwd = await nearestExistingDir(isDir ? targetPath : path.dirname(targetPath));
+	if (!cwd) {
+		return null;
+	}
+	const rel = toGitPath(path.relative(cwd, targetPath));
+	let out: string;
+	let repoRoot: string;
+	try {
+		// With -z, status paths are relative to the repository root
+		const cdup = (await runGit(cwd, ["rev-parse", "--show-cdup"])).trim();
+		repoRoot = path.join(cwd, cdup);
+		out = await runGit(cwd, [
+			"status", "--porcelain=v2", "--branch", "--untracked-files=all", "-z",
+			"--", rel ? `./${rel}` : ".",
+		]);
+	} catch {
+		return null;
+	}
+
+	const snapshot: GitStatusSnapshot = {
+		branch: null,
+		hasUpstream: false,
+		ahead: 0,
+		behind: 0,
+		files: new Map(),
+	};
+	const records = out.split("\0");
+	for (let i = 0; i < records.length; i++) {
+		const record = records[i];
+		if (record.startsWith("# branch.head ")) {
+			const head = record.slice("# branch.head ".length);
+			snapshot.branch = head === "(detached)" ? null : head;
+		} else if (record.startsWith("# branch.ab ")) {
+			const m = /\+(\d+) -(\d+)/.exec(record);
+			snapshot.hasUpstream = true;
+			snapshot.ahead = m ? Number(m[1]) : 0;
+			snapshot.behind = m ? Number(m[2]) : 0;
+		} else if (record.startsWith("1 ") || record.startsWith("2 ")) {
+			// "1 XY sub mH mI mW hH hI path"; renames ("2 ...") carry an extra score field
+			// and are followed by a record with the original path
+			const fields = record.split(" ");
+			const xy = fields[1];
+			const filePath = fields.slice(record.startsWith("1 ") ? 8 : 9).join(" ");
+			snapshot.files.set(statusKey(path.join(repoRoot, filePath)), {
+				staged: xy[0] !== ".",
+				modified: xy[1] !== ".",
+				untracked: false,
+				conflicted: false,
+			});
+			if (record.startsWith("2 ")) {
+				i++;
+			}
+		} else if (record.startsWith("u ")) {
+			const filePath = record.split(" ").slice(10).join(" ");
+			snapshot.files.set(statusKey(path.join(repoRoot, filePath)), {
+				staged: false,
+				modified: false,
+				untracked: false,
+				conflicted: true,
+			});
+		} else if (record.startsWith("? ")) {
+			snapshot.files.set(statusKey(path.join(repoRoot, record.slice(2))), {
+				staged: false,
+				modified: false,
+				untracked: true,
+				conflicted: false,
+			});
+		}
+	}
+	return snapshot;
+}
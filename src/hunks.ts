@@ -0,0 +1,128 @@
+import * as vscode from "vscode";
+import { diffLines } from "diff";
+import { normalizeEol } from "./diffEngine";
+
+/**
+ * A contiguous change between the reference and a target file.
+ * Line numbers are 0-based; texts are LF-normalized and keep their line endings.
+ */
+export interface Hunk {
+	index: number;
+	referenceStart: number;
+	referenceLineCount: number;
+	referenceText: string;
+	targetStart: number;
+	targetLineCount: number;
+	targetText: string;
+}
+
+// "push" applies the reference side of a hunk to the target, "pull" the target side to the reference
+export type HunkDirection = "push" | "pull";
+
+/**
+ * Computes the hunks between the reference text and a target text.
+ */
+export function computeHunks(referenceText: string, targetText: string): Hunk[] {
+	const changes = diffLines(normalizeEol(referenceText), normalizeEol(targetText));
+	const hunks: Hunk[] = [];
+	let referenceLine = 0;
+	let targetLine = 0;
+	let current: Hunk | null = null;
+
+	const flush = () => {
+		if (current) {
+			hunks.push(current);
+			current = null;
+		}
+	};
+
+	for (const change of changes) {
+		const count = change.count ?? 0;
+		if (!change.added && !change.removed) {
+			flush();
+			referenceLine += count;
+			targetLine += count;
+			continue;
+		}
+		if (!current) {
+			current = {
+				index: hunks.length,
+				referenceStart: referenceLine,
+				referenceLineCount: 0,
+				referenceText: "",
+				targetStart: targetLine,
+				targetLineCount: 0,
+				targetText: "",
+			};
+		}
+		if (change.removed) {
+			// Present only in the reference
+			current.referenceLineCount += count;
+			current.referenceText += change.value;
+			referenceLine += count;
+		} else {
+			// Present only in the target
+			current.targetLineCount += count;
+			current.targetText += change.value;
+			targetLine += count;
+		}
+	}
+	flush();
+	return hunks;
+}
+
+/**
+ * Finds a hunk in freshly computed hunks, e.g. after either file was edited since the hunk was
+ * listed. Hunks with the same texts on both sides match; the one nearest the old position wins.
+ */
+export function findSameHunk(hunks: Hunk[], hunk: Hunk): Hunk | undefined {
+	let best: Hunk | undefined;
+	for (const candidate of hunks) {
+		if (candidate.referenceText !== hunk.referenceText || candidate.targetText !== hunk.targetText) {
+			continue;
+		}
+		const distance = Math.abs(candidate.referenceStart - hunk.referenceStart);
+		if (!best || distance < Math.abs(best.referenceStart - hunk.referenceStart)) {
+			best = candidate;
+		}
+	}
+	return best;
+}
+
+/**
+ * Short, single-line preview of a hunk for quick picks and tree labels.
+ */
+export function describeHunk(hunk: Hunk): { label: string; preview: string } {
+	const range = (start: number, count: number) =>
+		count === 0 ? `after ${start}` : count === 1 ? `${start + 1}` : `${start + 1}-${start + count}`;
+	const label =
+		`Reference ${range(hunk.referenceStart, hunk.referenceLineCount)}` +
+		` ↔ Target ${range(hunk.targetStart, hunk.targetLineCount)}`;
+	const firstLine = (text: string) =>
+		text.split("\n").find((l) => l.trim().length > 0)?.trim() ?? "";
+	const preview = firstLine(hunk.referenceText) || firstLine(hunk.targetText);
+	return { label, preview };
+}
+
+/**
+ * Adds the edits for the selected hunks to `edit`.
+ * The document must be the target for "push" and the reference for "pull".
+ */
+export function addHunkEdits(
+	edit: vscode.WorkspaceEdit,
+	document: vscode.TextDocument,
+	hunks: Hunk[],
+	direction: HunkDirection
+): void {
+	const eol = document.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+	for (const hunk of hunks) {
+		const start = direction === "push" ? hunk.targetStart : hunk.referenceStart;
+		const lineCount = direction === "push" ? hunk.targetLineCount : hunk.referenceLineCount;
+		const text = direction === "push" ? hunk.referenceText : hunk.targetText;
+		// End positions past the last line are clamped to the end of the document
+		const range = document.validateRange(
+			new vscode.Range(start, 0, start + lineCount, 0)
+		);
+		edit.replace(document.uri, range, text.replace(/\n/g, eol));
+	}
+}
@@ -0,0 +1,208 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+
+export interface MatrixCell {
+	diffLineCount: number;
+	added: number;
+	removed: number;
+	// Missing on either side; nothing was compared
+	missing: boolean;
+	similarity?: number;
+	approximate?: boolean;
+	binary?: boolean;
+	// The comparison failed; nothing else in the cell is meaningful
+	error?: string;
+}
+
+/**
+ * Pairwise distances between every project's copy of one file.
+ * `cells[row][col]` compares project `row` (as the reference) with project `col`; the
+ * diagonal is null.
+ */
+export interface SimilarityMatrix {
+	groupName: string;
+	relativePath: string;
+	projects: string[];
+	cells: Array<Array<MatrixCell | null>>;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// Green for identical, then from yellow to red as the diff grows relative to the largest one
+function cellColor(cell: MatrixCell, maxCount: number): string {
+	if (cell.diffLineCount === 0) {
+		return "rgba(60, 180, 75, 0.35)";
+	}
+	const t = maxCount > 0 ? Math.sqrt(cell.diffLineCount / maxCount) : 1;
+	const hue = Math.round(55 * (1 - t));
+	return `hsla(${hue}, 85%, 50%, ${(0.25 + 0.45 * t).toFixed(2)})`;
+}
+
+function describeCell(from: string, to: string, cell: MatrixCell): string {
+	if (cell.error) {
+		return `${from} → ${to}: could not be compared: ${cell.error}`;
+	}
+	if (cell.missing) {
+		return `${from} → ${to}: file missing`;
+	}
+	if (cell.binary) {
+		return `${from} → ${to}: binary, ${cell.diffLineCount === 0 ? "identical" : "differs"}`;
+	}
+	const similarity = cell.similarity !== undefined ? `, ${cell.similarity}% similar` : "";
+	return `${from} → ${to}: ${cell.approximate ? "≈" : ""}+${cell.added} -${cell.removed}${similarity}`;
+}
+
+/**
+ * The webview HTML for a matrix. Only scripts carrying `nonce` may run.
+ */
+export function renderSimilarityMatrix(matrix: SimilarityMatrix, nonce: string): string {
+	const { projects, cells } = matrix;
+	let maxCount = 0;
+	for (const row of cells) {
+		for (const cell of row) {
+			if (cell && !cell.missing && !cell.error) {
+				maxCount = Math.max(maxCount, cell.diffLineCount);
+			}
+		}
+	}
+
+	// The closest other project in each row is outlined
+	const closest = cells.map((row) => {
+		let best = -1;
+		row.forEach((cell, col) => {
+			if (cell && !cell.missing && !cell.error && (best < 0 || cell.diffLineCount < row[best]!.diffLineCount)) {
+				best = col;
+			}
+		});
+		return best;
+	});
+
+	const header = projects.map((name) => `<th class="col">${escapeHtml(name)}</th>`).join("");
+	const rows = cells
+		.map((row, r) => {
+			const tds = row
+				.map((cell, c) => {
+					if (!cell) {
+						return `<td class="self"></td>`;
+					}
+					const title = escapeHtml(describeCell(projects[r], projects[c], cell));
+					if (cell.error) {
+						return `<td class="error" title="${title}">!</td>`;
+					}
+					if (cell.missing) {
+						return `<td class="missing" title="${title}">—</td>`;
+					}
+					const text = cell.binary
+						? (cell.diffLineCount === 0 ? "=" : "≠")
+						: `${cell.approximate ? "≈" : ""}${cell.diffLineCount}`;
+					const similarity = cell.similarity !== undefined
+						? `<div class="sim">${cell.similarity}%</div>`
+						: "";
+					return (
+						`<td class="cell${closest[r] === c ? " closest" : ""}" data-row="${r}" data-col="${c}" ` +
+						`title="${title}" style="background:${cellColor(cell, maxCount)}">${text}${similarity}</td>`
+					);
+				})
+				.join("");
+			return `<tr><th class="row">${escapeHtml(projects[r])}</th>${tds}</tr>`;
+		})
+		.join("\n");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid var(--vscode-panel-border, #8884); padding: 4px 8px; text-align: center; }
+th.row { text-align: right; }
+th.col { writing-mode: vertical-rl; transform: rotate(180deg); white-space: nowrap; }
+td.cell { cursor: pointer; min-width: 3em; font-variant-numeric: tabular-nums; }
+td.cell:hover { outline: 2px solid var(--vscode-focusBorder); }
+td.closest { font-weight: bold; box-shadow: inset 0 0 0 2px var(--vscode-editor-foreground); }
+td.self { background: var(--vscode-editor-inactiveSelectionBackground); }
+td.missing { color: var(--vscode-disabledForeground); }
+td.error { color: var(--vscode-errorForeground); }
+.sim { font-size: 0.8em; opacity: 0.8; }
+p { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(matrix.groupName)}: ${escapeHtml(matrix.relativePath)}</h2>
+<p>Each cell shows the changed lines from the row's project to the column's project. The closest project in each row is outlined; click a cell to open the diff.</p>
+<table>
+<tr><th></th>${header}</tr>
+${rows}
+</table>
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+document.querySelectorAll("td.cell").forEach((td) => {
+	td.addEventListener("click", () => {
+		vscode.postMessage({ type: "openDiff", row: Number(td.dataset.row), col: Number(td.dataset.col) });
+	});
+});
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * Webview panel showing a SimilarityMatrix. Only one panel exists; showing a new matrix
+ * reuses it.
+ */
+export class SimilarityMatrixPanel {
+	private static current: SimilarityMatrixPanel | undefined;
+
+	private onOpenDiff: (row: number, col: number) => void = () => {};
+	private disposables: vscode.Disposable[] = [];
+
+	private constructor(private readonly panel: vscode.WebviewPanel) {
+		this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+		this.panel.webview.onDidReceiveMessage(
+			(msg: { type?: string; row?: number; col?: number }) => {
+				if (msg?.type === "openDiff" && typeof msg.row === "number" && typeof msg.col === "number") {
+					this.onOpenDiff(msg.row, msg.col);
+				}
+			},
+			null,
+			this.disposables
+		);
+	}
+
+	static show(matrix: SimilarityMatrix, onOpenDiff: (row: number, col: number) => void) {
+		if (!SimilarityMatrixPanel.current) {
+			const panel = vscode.window.createWebviewPanel(
+				"multiProjectsDiff.similarityMatrix",
+				"Similarity Matrix",
+				vscode.ViewColumn.Active,
+				{ enableScripts: true }
+			);
+			SimilarityMatrixPanel.current = new SimilarityMatrixPanel(panel);
+		}
+		const view = SimilarityMatrixPanel.current;
+		view.onOpenDiff = onOpenDiff;
+		view.panel.title = `Similarity: ${matrix.relativePath.split(/[\\/]/).pop()}`;
+		view.panel.webview.html = renderSimilarityMatrix(matrix, crypto.randomBytes(16).toString("base64"));
+		view.panel.reveal();
+	}
+
+	static disposeCurrent() {
+		SimilarityMatrixPanel.current?.panel.dispose();
+	}
+
+	private dispose() {
+		SimilarityMatrixPanel.current = undefined;
+		for (const d of this.disposables) {
+			d.dispose();
+		}
+		this.disposables = [];
+	}
+}
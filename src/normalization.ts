@@ -0,0 +1,237 @@
+import * as path from "path";
+import { minimatch } from "minimatch";
+
+/**
+ * A normalization rule from a group's `normalization` setting.
+ * Rules apply to files matching `files` (a glob relative to the project; all files when omitted).
+ */
+export interface NormalizationRule {
+	files?: string;
+	ignoreBlankLines?: boolean;
+	ignoreCase?: boolean;
+	ignoreComments?: boolean;
+	// Lines matching any of these regular expressions are ignored
+	ignorePatterns?: string[];
+}
+
+// Effective options for one file, after merging every matching rule
+export interface NormalizationOptions {
+	ignoreBlankLines: boolean;
+	ignoreCase: boolean;
+	ignoreComments: boolean;
+	ignorePatterns: string[];
+}
+
+export const DEFAULT_NORMALIZATION: NormalizationOptions = {
+	ignoreBlankLines: false,
+	ignoreCase: false,
+	ignoreComments: false,
+	ignorePatterns: [],
+};
+
+/**
+ * Merges the rules whose glob matches `relativePath`. Later rules override boolean flags
+ * set by earlier ones; ignore patterns accumulate.
+ */
+export function resolveNormalization(
+	rules: NormalizationRule[] | undefined,
+	relativePath: string
+): NormalizationOptions {
+	const resolved: NormalizationOptions = { ...DEFAULT_NORMALIZATION, ignorePatterns: [] };
+	const posixPath = relativePath.split(path.sep).join("/");
+	for (const rule of rules ?? []) {
+		if (rule.files && !minimatch(posixPath, rule.files, { dot: true, matchBase: true, nocase: true })) {
+			continue;
+		}
+		if (rule.ignoreBlankLines !== undefined) {
+			resolved.ignoreBlankLines = rule.ignoreBlankLines;
+		}
+		if (rule.ignoreCase !== undefined) {
+			resolved.ignoreCase = rule.ignoreCase;
+		}
+		if (rule.ignoreComments !== undefined) {
+			resolved.ignoreComments = rule.ignoreComments;
+		}
+		for (const pattern of rule.ignorePatterns ?? []) {
+			if (!resolved.ignorePatterns.includes(pattern)) {
+				resolved.ignorePatterns.push(pattern);
+			}
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Stable string for cache keys: equal options always produce the same key.
+ */
+export function normalizationKey(options: NormalizationOptions): string {
+	if (
+		!options.ignoreBlankLines &&
+		!options.ignoreCase &&
+		!options.ignoreComments &&
+		options.ignorePatterns.length === 0
+	) {
+		return "none";
+	}
+	const flags =
+		(options.ignoreBlankLines ? "b" : "") +
+		(options.ignoreCase ? "i" : "") +
+		(options.ignoreComments ? "c" : "");
+	return `${flags}|${JSON.stringify(options.ignorePatterns)}`;
+}
+
+// ---- Comment stripping ----
+
+interface CommentSyntax {
+	line: string[];
+	block: Array<[string, string]>;
+	quotes: string[];
+}
+
+const C_LIKE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]], quotes: ["\"", "'", "`"] };
+const HASH: CommentSyntax = { line: ["#"], block: [], quotes: ["\"", "'"] };
+const MARKUP: CommentSyntax = { line: [], block: [["<!--", "-->"]], quotes: [] };
+const DASH: CommentSyntax = { line: ["--"], block: [["/*", "*/"]], quotes: ["'", "\""] };
+const CSS: CommentSyntax = { line: [], block: [["/*", "*/"]], quotes: ["\"", "'"] };
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {};
+function register(syntax: CommentSyntax, exts: string[]) {
+	for (const ext of exts) {
+		COMMENT_SYNTAX[ext] = syntax;
+	}
+}
+register(C_LIKE, [
+	"js", "jsx", "mjs", "cjs", "ts", "tsx", "mts", "cts", "java", "c", "h", "cc", "cpp", "hpp",
+	"cs", "go", "rs", "swift", "kt", "kts", "scala", "dart", "php", "jsonc", "groovy", "gradle",
+]);
+register(CSS, ["css", "scss", "less"]);
+register(HASH, [
+	"py", "rb", "sh", "bash", "zsh", "yaml", "yml", "toml", "ini", "cfg", "conf", "properties",
+	"r", "pl", "ps1", "dockerfile", "makefile", "mk", "cmake", "tf", "env", "gitignore",
+]);
+register(MARKUP, ["html", "htm", "xml", "svg", "xhtml", "vue", "svelte", "md", "markdown"]);
+register(DASH, ["sql", "lua", "hs"]);
+
+export function commentSyntaxFor(filePath: string): CommentSyntax | undefined {
+	const base = path.basename(filePath).toLowerCase();
+	const ext = path.extname(base).replace(/^\./, "") || base.replace(/^\./, "");
+	return COMMENT_SYNTAX[ext];
+}
+
+/**
+ * Removes comments while keeping line breaks, so line numbers stay stable.
+ * String literals are skipped; other constructs (regex literals, heredocs) are not understood,
+ * so the result is a best-effort approximation.
+ */
+export function stripComments(text: string, syntax: CommentSyntax): string {
+	let out = "";
+	let i = 0;
+	const n = text.length;
+	while (i < n) {
+		const ch = text[i];
+		if (syntax.quotes.includes(ch)) {
+			// Copy the string literal verbatim
+			let j = i + 1;
+			while (j < n && text[j] !== ch) {
+				if (text[j] === "\\") {
+					j++;
+				} else if (text[j] === "\n" && ch !== "`") {
+					break;
+				}
+				j++;
+			}
+			out += text.slice(i, j + 1);
+			i = j + 1;
+			continue;
+		}
+		const line = syntax.line.find((m) => text.startsWith(m, i));
+		if (line) {
+			const end = text.indexOf("\n", i);
+			i = end === -1 ? n : end;
+			continue;
+		}
+		const block = syntax.block.find(([open]) => text.startsWith(open, i));
+		if (block) {
+			const end = text.indexOf(block[1], i + block[0].length);
+			const stop = end === -1 ? n : end + block[1].length;
+			// Keep the line breaks inside the comment
+			out += text.slice(i, stop).replace(/[^\n]/g, "");
+			i = stop;
+			continue;
+		}
+		out += ch;
+		i++;
+	}
+	return out;
+}
+
+/**
+ * Why an ignore pattern is not a valid regular expression, or undefined when it is.
+ */
+export function patternError(pattern: string): string | undefined {
+	try {
+		new RegExp(pattern);
+		return undefined;
+	} catch (err) {
+		return (err as Error).message;
+	}
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+	const out: RegExp[] = [];
+	for (const p of patterns) {
+		try {
+			out.push(new RegExp(p));
+		} catch {
+			// Skipped here; repository configs report them as problems, settings with a warning
+		}
+	}
+	return out;
+}
+
+/**
+ * Splits LF-normalized text into lines and applies the normalization options.
+ * `ignoreWhiteSpace` is the group's existing whitespace setting.
+ */
+export function normalizeLines(
+	text: string,
+	filePath: string,
+	ignoreWhiteSpace: boolean,
+	options: NormalizationOptions = DEFAULT_NORMALIZATION
+): string[] {
+	if (text.length === 0) {
+		return [];
+	}
+	const syntax = options.ignoreComments ? commentSyntaxFor(filePath) : undefined;
+	const rawLines = text.split("\n");
+	const strippedLines = syntax ? stripComments(text, syntax).split("\n") : rawLines;
+	const patterns = compilePatterns(options.ignorePatterns);
+
+	const out: string[] = [];
+	for (let i = 0; i < strippedLines.length; i++) {
+		let line = strippedLines[i];
+		if (syntax && line !== rawLines[i]) {
+			// Drop lines that only held a comment, and the whitespace a trailing comment leaves
+			if (line.trim().length === 0) {
+				continue;
+			}
+			line = line.trimEnd();
+		}
+		if (patterns.length > 0 && patterns.some((re) => re.test(rawLines[i]))) {
+			continue;
+		}
+		if (ignoreWhiteSpace) {
+			// Collapse all whitespace to a single space and trim
+			// This approximates a whitespace-insensitive comparison for counting purposes
+			line = line.replace(/\s+/g, " ").trim();
+		}
+		if (options.ignoreCase) {
+			line = line.toLowerCase();
+		}
+		if (options.ignoreBlankLines && line.trim().length === 0) {
+			continue;
+		}
+		out.push(line);
+	}
+	return out;
+}
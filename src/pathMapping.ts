@@ -0,0 +1,72 @@
+import * as path from "path";
+
+/**
+ * Path mapping rules of a project: keys are prefixes shared by every project in the group,
+ * values are where that prefix lives inside this project.
+ * E.g. `{ "shared": "src/shared" }` in one project and `{ "shared": "lib/common" }` in another.
+ */
+export type PathMappings = Record<string, string>;
+
+interface MappedProject {
+	pathMappings?: PathMappings;
+}
+
+function toPosix(p: string): string {
+	return p.replace(/\\/g, "/").replace(/^\.\//, "").replace(/\/+$/, "");
+}
+
+/**
+ * Replaces the longest matching prefix of `relPath` using `pairs` ([from, to]).
+ * Returns null when no prefix matches.
+ */
+function replaceLongestPrefix(relPath: string, pairs: Array<[string, string]>): string | null {
+	let best: [string, string] | null = null;
+	for (const [from, to] of pairs) {
+		const isMatch = from === "" || relPath === from || relPath.startsWith(from + "/");
+		if (isMatch && (!best || from.length > best[0].length)) {
+			best = [from, to];
+		}
+	}
+	if (!best) {
+		return null;
+	}
+	const [from, to] = best;
+	const rest = from === "" ? relPath : relPath.slice(from.length).replace(/^\//, "");
+	return to && rest ? `${to}/${rest}` : to || rest;
+}
+
+function mappingPairs(project: MappedProject | undefined): Array<[string, string]> {
+	return Object.entries(project?.pathMappings ?? {}).map(
+		([shared, local]) => [toPosix(shared), toPosix(local)] as [string, string]
+	);
+}
+
+/**
+ * Translates a path relative to `project` into the group-wide shared layout.
+ */
+export function toSharedPath(relPath: string, project: MappedProject | undefined): string {
+	const posix = toPosix(relPath);
+	const pairs = mappingPairs(project).map(([shared, local]) => [local, shared] as [string, string]);
+	return replaceLongestPrefix(posix, pairs) ?? posix;
+}
+
+/**
+ * Translates a path in the group-wide shared layout into a path relative to `project`.
+ */
+export function toProjectPath(sharedPath: string, project: MappedProject | undefined): string {
+	const posix = toPosix(sharedPath);
+	return replaceLongestPrefix(posix, mappingPairs(project)) ?? posix;
+}
+
+/**
+ * Translates a path relative to the `from` project into the matching path relative to `to`.
+ * Paths without a matching rule are returned unchanged.
+ */
+export function mapRelativePath(
+	relPath: string,
+	from: MappedProject | undefined,
+	to: MappedProject | undefined
+): string {
+	const mapped = toProjectPath(toSharedPath(relPath, from), to);
+	return path.normalize(mapped);
+}
@@ -0,0 +1,234 @@
+import { promises as fsp } from "fs";
+import * as path from "path";
+import { ChangeStats, DiffAlgorithm, DiffCounts, StructuredDiff } from "./types";
+import { invertStructuredDiff } from "./structuredDiff";
+import { invertChangeStats } from "./diffEngine";
+
+// Content-dependent part of a diff result; paths and project names are filled in by the caller
+export interface CachedDiff {
+	diffLineCount: number;
+	diffDetail: DiffCounts;
+	structured?: StructuredDiff;
+	approximate?: boolean;
+	algorithm?: DiffAlgorithm;
+	stats?: ChangeStats;
+}
+
+interface StoredEntry {
+	value: CachedDiff;
+	// Serialized size, counted against the size limit
+	bytes: number;
+}
+
+interface CacheFile {
+	version: number;
+	// Least recently used first
+	entries: Array<[string, CachedDiff]>;
+}
+
+const CACHE_FILE_VERSION = 2;
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null;
+
+// Entries of a truncated or hand-edited file are dropped rather than trusted
+function isValidEntry(entry: unknown): entry is [string, CachedDiff] {
+	if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== "string" || !isObject(entry[1])) {
+		return false;
+	}
+	const value = entry[1];
+	return (
+		typeof value.diffLineCount === "number" &&
+		isObject(value.diffDetail) &&
+		typeof value.diffDetail.added === "number" &&
+		typeof value.diffDetail.removed === "number" &&
+		(value.structured === undefined ||
+			(isObject(value.structured) &&
+				Array.isArray(value.structured.changes) &&
+				typeof value.structured.added === "number" &&
+				typeof value.structured.removed === "number" &&
+				typeof value.structured.changed === "number")) &&
+		(value.stats === undefined || isObject(value.stats))
+	);
+}
+
+function makeKey(baseHash: string, compareHash: string, optionsKey: string): string {
+	return `${optionsKey}|${baseHash}|${compareHash}`;
+}
+
+/**
+ * Diff results keyed by the content hashes of both sides plus the comparison options,
+ * saved to a JSON file so they survive reloads. Unlike the mtime-keyed DiffCache, entries
+ * stay valid when a file is touched without changing its content.
+ */
+export class PersistentDiffCache {
+	private map = new Map<string, StoredEntry>();
+	private totalBytes = 0;
+	private dirty = false;
+	private loading: Promise<void> | null = null;
+	private writing: Promise<void> = Promise.resolve();
+
+	constructor(
+		private filePath: string,
+		private maxBytes: number = 16 * 1024 * 1024,
+		private maxEntries: number = 50000
+	) {}
+
+	/**
+	 * Reads the cache file once. Entries added before loading finishes take precedence.
+	 */
+	load(): Promise<void> {
+		if (!this.loading) {
+			this.loading = this.readFile();
+		}
+		return this.loading;
+	}
+
+	private async readFile(): Promise<void> {
+		let data: CacheFile;
+		try {
+			data = JSON.parse(await fsp.readFile(this.filePath, "utf8")) as CacheFile;
+		} catch {
+			// Missing or corrupt; start empty
+			return;
+		}
+		if (!isObject(data) || data.version !== CACHE_FILE_VERSION || !Array.isArray(data.entries)) {
+			return;
+		}
+		const newer = this.map;
+		this.map = new Map();
+		this.totalBytes = 0;
+		for (const entry of data.entries) {
+			if (!isValidEntry(entry)) {
+				continue;
+			}
+			const [key, value] = entry;
+			if (!newer.has(key)) {
+				this.insert(key, value);
+			}
+		}
+		for (const [key, entry] of newer) {
+			this.insert(key, entry.value);
+		}
+		this.evictIfNeeded();
+	}
+
+	setLimits(maxBytes: number, maxEntries: number = this.maxEntries) {
+		this.maxBytes = maxBytes;
+		this.maxEntries = maxEntries;
+		if (this.evictIfNeeded()) {
+			this.dirty = true;
+		}
+	}
+
+	get size(): number {
+		return this.map.size;
+	}
+
+	/**
+	 * Looks up a result in either direction; a result stored for (compare, base) is inverted.
+	 */
+	get(baseHash: string, compareHash: string, optionsKey: string): CachedDiff | null {
+		const key = makeKey(baseHash, compareHash, optionsKey);
+		const entry = this.touch(key);
+		if (entry) {
+			return { ...entry.value };
+		}
+		const reversed = this.touch(makeKey(compareHash, baseHash, optionsKey));
+		if (reversed) {
+			const r = reversed.value;
+			return {
+				diffLineCount: r.diffLineCount,
+				diffDetail: { added: r.diffDetail.removed, removed: r.diffDetail.added },
+				structured: r.structured ? invertStructuredDiff(r.structured) : undefined,
+				approximate: r.approximate,
+				algorithm: r.algorithm,
+				stats: r.stats ? invertChangeStats(r.stats) : undefined,
+			};
+		}
+		return null;
+	}
+
+	set(baseHash: string, compareHash: string, optionsKey: string, value: CachedDiff): void {
+		const key = makeKey(baseHash, compareHash, optionsKey);
+		this.remove(key);
+		this.insert(key, {
+			diffLineCount: value.diffLineCount,
+			diffDetail: { ...value.diffDetail },
+			structured: value.structured,
+			approximate: value.approximate,
+			algorithm: value.algorithm,
+			stats: value.stats,
+		});
+		this.evictIfNeeded();
+		this.dirty = true;
+	}
+
+	/**
+	 * Writes the cache file if anything changed since the last write.
+	 */
+	flush(): Promise<void> {
+		this.writing = this.writing.then(async () => {
+			if (!this.dirty) {
+				return;
+			}
+			this.dirty = false;
+			const data: CacheFile = {
+				version: CACHE_FILE_VERSION,
+				entries: [...this.map].map(([key, entry]) => [key, entry.value]),
+			};
+			const tmp = `${this.filePath}.tmp`;
+			try {
+				await fsp.mkdir(path.dirname(this.filePath), { recursive: true });
+				await fsp.writeFile(tmp, JSON.stringify(data), "utf8");
+				await fsp.rename(tmp, this.filePath);
+			} catch (err) {
+				this.dirty = true;
+				throw err;
+			}
+		});
+		return this.writing;
+	}
+
+	async clear(): Promise<void> {
+		await this.load();
+		await this.writing.catch(() => {});
+		this.map.clear();
+		this.totalBytes = 0;
+		this.dirty = false;
+		await fsp.rm(this.filePath, { force: true });
+	}
+
+	private touch(key: string): StoredEntry | undefined {
+		const entry = this.map.get(key);
+		if (entry) {
+			// LRU: move to end
+			this.map.delete(key);
+			this.map.set(key, entry);
+		}
+		return entry;
+	}
+
+	private insert(key: string, value: CachedDiff) {
+		const bytes = key.length + JSON.stringify(value).length;
+		this.map.set(key, { value, bytes });
+		this.totalBytes += bytes;
+	}
+
+	private remove(key: string) {
+		const entry = this.map.get(key);
+		if (entry) {
+			this.map.delete(key);
+			this.totalBytes -= entry.bytes;
+		}
+	}
+
+	private evictIfNeeded(): boolean {
+		let evicted = false;
+		while (this.map.size > 0 && (this.map.size > this.maxEntries || this.totalBytes > this.maxBytes)) {
+			const firstKey = this.map.keys().next().value as string;
+			this.remove(firstKey);
+			evicted = true;
+		}
+		return evicted;
+	}
+}
@@ -1,36 +1,186 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { DiffResult } from "./types";
-import { Project, MatchingGroup } from "./extension";
+import {
+	ChangeStats,
+	DiffResult,
+	FolderProjectResult,
+	GitFileStatus,
+	GitStatusInfo,
+	KeyChange,
+} from "./types";
+import { GroupMatch, Project, MatchingGroup } from "./compare";
+import { FolderFileStatus, getFolderFileStatus, summarizeFolderResult } from "./folderDiff";
+import { formatBytes } from "./fileUtils";
+import { VersionCluster, clusterByContent } from "./versionClusters";
+import { Hunk, computeHunks, describeHunk } from "./hunks";
+
+// e.g. "main ↑1 ↓2"
+function formatBranch(git: GitStatusInfo): string {
+	let text = git.branch ?? "(detached)";
+	if (git.ahead) {
+		text += ` ↑${git.ahead}`;
+	}
+	if (git.behind) {
+		text += ` ↓${git.behind}`;
+	}
+	return text;
+}
+
+// e.g. "staged, modified"; empty when the file has no local changes
+function formatFileStatus(status: GitFileStatus | undefined): string {
+	if (!status) {
+		return "";
+	}
+	const parts: string[] = [];
+	if (status.conflicted) {
+		parts.push("conflicted");
+	}
+	if (status.untracked) {
+		parts.push("untracked");
+	}
+	if (status.staged) {
+		parts.push("staged");
+	}
+	if (status.modified) {
+		parts.push("modified");
+	}
+	return parts.join(", ");
+}
+
+function gitTooltip(git: GitStatusInfo): string {
+	const upstream = git.hasUpstream
+		? `${git.ahead} ahead, ${git.behind} behind upstream`
+		: "no upstream";
+	const fileStatus = formatFileStatus(git.fileStatus) || "no local changes";
+	return `Branch: ${git.branch ?? "(detached HEAD)"} (${upstream})\nFile: ${fileStatus}`;
+}
+
+function formatChangeStats(stats: ChangeStats): string {
+	const about = stats.approximate ? "about " : "";
+	return (
+		`Words added: ${about}${stats.wordsAdded}, removed: ${about}${stats.wordsRemoved}\n` +
+		`Characters added: ${about}${stats.charsAdded}, removed: ${about}${stats.charsRemoved}\n` +
+		`Similarity: ${stats.similarity}%`
+	);
+}
+
+function joinDescription(...parts: Array<string | undefined>): string {
+	return parts.filter((p) => !!p).join(" · ");
+}
 
 /**
  * A single entry in our "Multi Projects Diff" tree.
  */
 export class DiffItem extends vscode.TreeItem {
+	// Text files that differ expand into their hunks
+	public readonly hasHunks: boolean;
+
+	// `scope` keeps ids unique when the results of several diff groups are shown
 	constructor(
 		public diff: DiffResult,
-		private isReferenceFile: boolean = false
+		private isReferenceFile: boolean = false,
+		scope?: string
 	) {
 		// Label: [Project Name] ([Added]/[Removed])
 		super(
 			`${diff.projectName} (${diff.diffDetail.added}/${diff.diffDetail.removed})`,
 			vscode.TreeItemCollapsibleState.None
 		);
+		// Stable across redraws, so an expanded row stays expanded when its counts change
+		this.id = `${scope ? `${scope}/` : ""}diff:${diff.projectName}:${diff.compareFilePath}`;
 
 		// Tooltip to provide detailed information
 		this.tooltip = diff.fileExists
 			? `Lines added: ${diff.diffDetail.added}, removed: ${diff.diffDetail.removed}`
 			: `File not found: ${diff.compareFilePath}`;
+		if (diff.fileExists && diff.algorithm) {
+			this.tooltip += ` (${diff.algorithm} diff)`;
+		}
+		if (diff.fileExists && diff.stats) {
+			this.tooltip += `\n${formatChangeStats(diff.stats)}`;
+		}
+
+		// Structured (key-level) results expand into their key changes
+		if (diff.structured) {
+			const { added, removed, changed, format } = diff.structured;
+			this.label = `${diff.projectName} (+${added} -${removed} ~${changed})`;
+			this.tooltip =
+				`Keys added: ${added}, removed: ${removed}, changed: ${changed} ` +
+				`(${format.toUpperCase()} structure)`;
+			if (diff.structured.changes.length > 0) {
+				this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+			}
+		}
+
+		// Hunks are read from the files on disk, so git revisions and large files have none
+		this.hasHunks =
+			diff.fileExists &&
+			diff.diffLineCount > 0 &&
+			!diff.structured &&
+			!diff.binary &&
+			!diff.approximate &&
+			!diff.compareRef;
+		if (this.hasHunks) {
+			this.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+		}
+
+		// Large files whose counts were estimated
+		if (diff.approximate) {
+			this.label = `${diff.projectName} (≈${diff.diffDetail.added}/${diff.diffDetail.removed})`;
+			this.tooltip =
+				`About ${diff.diffDetail.added} lines added, ${diff.diffDetail.removed} removed\n` +
+				"Approximate: the file is too large for an exact diff; moved lines are not counted.";
+		}
+
+		// Binary files: identical or not by hash, plus the target's size and date
+		if (diff.binary) {
+			const { binary } = diff;
+			this.label = `${diff.projectName} (${binary.identical ? "identical" : "differs"})`;
+			this.tooltip =
+				`Binary file, ${binary.identical ? "identical to" : "different from"} the reference\n` +
+				`Size: ${formatBytes(binary.size)} (reference: ${formatBytes(binary.baseSize)})` +
+				(binary.mtimeMs !== undefined ? `\nModified: ${new Date(binary.mtimeMs).toLocaleString()}` : "");
+		}
 
 		// Description and contextValue for menu commands
-		if (diff.fileExists) {
-			this.description = ""; // No "File Missing" text
+		if (diff.binary) {
+			this.description = joinDescription(
+				formatBytes(diff.binary.size),
+				diff.binary.mtimeMs !== undefined ? new Date(diff.binary.mtimeMs).toLocaleDateString() : undefined
+			);
+			// Binary files have no hunks to push or pull
+			this.contextValue = "multiProjectsDiff.binaryFile";
+		} else if (diff.fileExists) {
+			this.description = diff.approximate ? "approximate" : ""; // No "File Missing" text
 			this.contextValue = "multiProjectsDiff.fileExists";
 		} else {
 			this.description = "File Missing";
 			this.contextValue = "multiProjectsDiff.fileMissing";
 		}
 
+		// Comparing against a git revision: say which side was actually compared
+		if (diff.compareRef) {
+			if (diff.compareRefFallback) {
+				const reason =
+					diff.compareRefFallback === "notRepo" ? "not a git repo" : `${diff.compareRef} not found`;
+				this.description = `${diff.fileExists ? "" : "File Missing · "}working tree (${reason})`;
+			} else {
+				this.description = diff.fileExists
+					? joinDescription(`@ ${diff.compareRef}`, diff.approximate ? "approximate" : undefined)
+					: `Missing at ${diff.compareRef}`;
+			}
+		}
+
+		// Branch, ahead/behind and local changes of the target project
+		if (diff.git) {
+			this.description = joinDescription(
+				this.description as string,
+				formatBranch(diff.git),
+				formatFileStatus(diff.git.fileStatus)
+			);
+			this.tooltip = `${this.tooltip}\n${gitTooltip(diff.git)}`;
+		}
+
 		// Add command for opening the diff (when clicking the item itself)
 		if (diff.fileExists) {
 			this.command = {
@@ -46,6 +196,277 @@ export class DiffItem extends vscode.TreeItem {
 					"warning",
 					new vscode.ThemeColor("problemsWarningIcon.foreground")
 			  );
+
+		// The comparison failed; there are no counts to show or diff to open
+		if (diff.error) {
+			this.label = diff.projectName;
+			this.description = "Error";
+			this.tooltip = `Comparison failed: ${diff.error}`;
+			this.contextValue = "multiProjectsDiff.fileError";
+			this.command = undefined;
+			this.iconPath = new vscode.ThemeIcon("error", new vscode.ThemeColor("errorForeground"));
+		}
+	}
+
+	getChildren(): vscode.TreeItem[] {
+		const structured = this.diff.structured;
+		if (!structured) {
+			return [];
+		}
+		const items: vscode.TreeItem[] = structured.changes.map(
+			(change) => new KeyChangeItem(change)
+		);
+		if (structured.truncated) {
+			const total = structured.added + structured.removed + structured.changed;
+			items.push(new vscode.TreeItem(`… ${total - structured.changes.length} more`));
+		}
+		return items;
+	}
+}
+
+/**
+ * A contiguous change between the reference and a project's file. Clicking it opens the diff
+ * at the change; inline actions push it to the project or pull it into the reference.
+ */
+export class HunkItem extends vscode.TreeItem {
+	constructor(
+		public hunk: Hunk,
+		public parent: DiffItem,
+		public referenceFilePath: string
+	) {
+		const { label, preview } = describeHunk(hunk);
+		super(label, vscode.TreeItemCollapsibleState.None);
+
+		this.description = preview;
+		this.tooltip =
+			`Reference: ${hunk.referenceLineCount} line(s), ${parent.diff.projectName}: ${hunk.targetLineCount} line(s)` +
+			(preview ? `\n${preview}` : "");
+		this.iconPath = new vscode.ThemeIcon(
+			hunk.referenceLineCount === 0
+				? "diff-added"
+				: hunk.targetLineCount === 0
+				? "diff-removed"
+				: "diff-modified"
+		);
+		this.contextValue = "multiProjectsDiff.hunk";
+		this.command = {
+			command: "multiProjectsDiff.openDiff",
+			title: "Open Diff",
+			arguments: [parent.diff, hunk],
+		};
+	}
+}
+
+/**
+ * A key that was added, removed or changed in a structured (JSON/YAML) comparison.
+ */
+export class KeyChangeItem extends vscode.TreeItem {
+	constructor(public change: KeyChange) {
+		super(change.path, vscode.TreeItemCollapsibleState.None);
+
+		switch (change.kind) {
+			case "added":
+				this.description = change.after;
+				this.iconPath = new vscode.ThemeIcon("diff-added");
+				break;
+			case "removed":
+				this.description = change.before;
+				this.iconPath = new vscode.ThemeIcon("diff-removed");
+				break;
+			case "changed":
+				this.description = `${change.before} → ${change.after}`;
+				this.iconPath = new vscode.ThemeIcon("diff-modified");
+				break;
+		}
+		this.tooltip = `${change.kind}: ${change.path}\n` +
+			`reference: ${change.before ?? "(absent)"}\n` +
+			`target: ${change.after ?? "(absent)"}`;
+		this.contextValue = "multiProjectsDiff.keyChange";
+	}
+}
+
+const FOLDER_STATUS_ORDER: Record<FolderFileStatus, number> = {
+	error: 0,
+	differs: 1,
+	missing: 2,
+	onlyInTarget: 3,
+	identical: 4,
+};
+
+/**
+ * A file row in folder mode, labelled with its path relative to the compared folder.
+ */
+export class FolderFileItem extends DiffItem {
+	constructor(diff: DiffResult) {
+		super(diff);
+		const status = getFolderFileStatus(diff);
+		this.label = diff.relativePath ?? path.basename(diff.compareFilePath);
+
+		switch (status) {
+			case "identical":
+				this.description = "Identical";
+				this.iconPath = new vscode.ThemeIcon(
+					"pass",
+					new vscode.ThemeColor("testing.iconPassed")
+				);
+				break;
+			case "differs":
+				this.description = diff.binary
+					? `Binary, ${formatBytes(diff.binary.size)}`
+					: `${diff.approximate ? "≈" : ""}+${diff.diffDetail.added} -${diff.diffDetail.removed}`;
+				this.iconPath = new vscode.ThemeIcon("diff");
+				break;
+			case "onlyInTarget":
+				this.description = "Only in target";
+				this.tooltip = `File exists only in ${diff.projectName}: ${diff.compareFilePath}`;
+				this.contextValue = "multiProjectsDiff.onlyInTarget";
+				this.iconPath = new vscode.ThemeIcon("diff-added");
+				this.command = {
+					command: "vscode.open",
+					title: "Open File",
+					arguments: [vscode.Uri.file(diff.compareFilePath)],
+				};
+				break;
+			case "missing":
+			case "error":
+				// DiffItem already renders missing files and failed comparisons
+				break;
+		}
+
+		// The branch is shown on the project node; only show the file's own changes here
+		if (status !== "missing" && diff.git) {
+			this.description = joinDescription(
+				this.description as string,
+				formatFileStatus(diff.git.fileStatus)
+			);
+		}
+	}
+}
+
+/**
+ * A project node in folder mode; expands into the compared files of that project.
+ */
+export class FolderProjectItem extends vscode.TreeItem {
+	constructor(public folderResult: FolderProjectResult) {
+		super(folderResult.projectName, vscode.TreeItemCollapsibleState.Collapsed);
+
+		const summary = summarizeFolderResult(folderResult);
+		if (!folderResult.folderExists) {
+			this.description = "Folder Missing";
+			this.iconPath = new vscode.ThemeIcon(
+				"warning",
+				new vscode.ThemeColor("problemsWarningIcon.foreground")
+			);
+		} else {
+			const parts: string[] = [];
+			if (summary.differs) {
+				parts.push(`${summary.differs} differ`);
+			}
+			if (summary.missing) {
+				parts.push(`${summary.missing} missing`);
+			}
+			if (summary.onlyInTarget) {
+				parts.push(`${summary.onlyInTarget} only in target`);
+			}
+			if (summary.error) {
+				parts.push(`${summary.error} failed`);
+			}
+			this.description = parts.length > 0 ? parts.join(", ") : "Identical";
+			this.iconPath = new vscode.ThemeIcon("folder");
+		}
+		this.tooltip =
+			`${folderResult.compareFolderPath}\n` +
+			`Identical: ${summary.identical}, differ: ${summary.differs}, ` +
+			`missing: ${summary.missing}, only in target: ${summary.onlyInTarget}, failed: ${summary.error}`;
+		if (folderResult.git) {
+			this.description = joinDescription(
+				this.description as string,
+				formatBranch(folderResult.git)
+			);
+			this.tooltip += `\nBranch: ${folderResult.git.branch ?? "(detached HEAD)"}`;
+		}
+
+		this.contextValue = "multiProjectsDiff.folderProject";
+	}
+
+	getChildren(): FolderFileItem[] {
+		const files = [...this.folderResult.files].sort((a, b) => {
+			const byStatus =
+				FOLDER_STATUS_ORDER[getFolderFileStatus(a)] -
+				FOLDER_STATUS_ORDER[getFolderFileStatus(b)];
+			if (byStatus !== 0) {
+				return byStatus;
+			}
+			return (a.relativePath ?? "").localeCompare(b.relativePath ?? "");
+		});
+		return files.map((f) => new FolderFileItem(f));
+	}
+}
+
+/**
+ * A group of projects whose file has identical content; expands into those projects.
+ */
+export class VersionClusterItem extends vscode.TreeItem {
+	// `scope` keeps ids unique when clusters of several diff groups are shown
+	constructor(public cluster: VersionCluster, private scope?: string) {
+		super(`Version ${cluster.name}`, vscode.TreeItemCollapsibleState.Expanded);
+
+		const count = cluster.results.length + (cluster.includesReference ? 1 : 0);
+		this.description = joinDescription(
+			`${count} project${count === 1 ? "" : "s"}`,
+			cluster.isMajority ? "majority" : undefined,
+			cluster.includesReference ? "reference" : undefined
+		);
+		const names = cluster.results.map((r) => r.projectName);
+		if (cluster.includesReference) {
+			names.unshift("(reference)");
+		}
+		this.tooltip = `md5 ${cluster.contentHash}\n${names.join("\n")}`;
+		this.iconPath = new vscode.ThemeIcon(
+			cluster.includesReference ? "pinned" : "versions"
+		);
+		// The reference cluster cannot be set as reference again
+		this.contextValue =
+			cluster.includesReference || cluster.results.length === 0
+				? "multiProjectsDiff.referenceCluster"
+				: "multiProjectsDiff.versionCluster";
+		this.id = `${scope ? `${scope}/` : ""}versionCluster:${cluster.contentHash}`;
+	}
+
+	getChildren(): DiffItem[] {
+		return this.cluster.results.map((r) => new DiffItem(r, false, this.scope));
+	}
+}
+
+// The results of one diff group when the reference belongs to several groups
+export interface GroupResults extends GroupMatch {
+	results: DiffResult[];
+}
+
+/**
+ * A diff group node, shown when the reference file belongs to several groups; expands into
+ * the results of that group's projects.
+ */
+export class GroupResultsItem extends vscode.TreeItem {
+	constructor(public groupResults: GroupResults, expanded: boolean) {
+		super(
+			groupResults.group.name,
+			expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+		);
+
+		const { results, project } = groupResults;
+		const differing = results.filter((r) => r.fileExists && r.diffLineCount > 0).length;
+		const missing = results.filter((r) => !r.fileExists).length;
+		this.description = joinDescription(
+			`as ${project.name}`,
+			differing > 0 ? `${differing} differ` : undefined,
+			missing > 0 ? `${missing} missing` : undefined,
+			differing === 0 && missing === 0 ? "Identical" : undefined
+		);
+		this.tooltip = `${results.length} other project${results.length === 1 ? "" : "s"} in group "${groupResults.group.name}"`;
+		this.iconPath = new vscode.ThemeIcon("group-by-ref-type");
+		this.contextValue = "multiProjectsDiff.groupResults";
+		this.id = `diffGroup:${groupResults.group.name}`;
 	}
 }
 
@@ -56,7 +477,8 @@ export class TopDiffItem extends vscode.TreeItem {
 	constructor(
 		filePath: string = "",
 		matchingProject?: Project,
-		referenceFilePath?: string
+		referenceFilePath?: string,
+		compareRef?: string
 	) {
 		// Prefer showing the reference file if available; otherwise fallback to current file
 		const displayPath = referenceFilePath || filePath || "";
@@ -76,6 +498,9 @@ export class TopDiffItem extends vscode.TreeItem {
 		// Show the folder of the displayed path, or guidance if nothing to show
 		if (displayPath) {
 			this.description = path.dirname(displayPath);
+			if (compareRef) {
+				this.description += ` · vs ${compareRef}`;
+			}
 		} else {
 			this.description = "No active editor found - Click to refresh";
 		}
@@ -100,10 +525,16 @@ export class TopGroupItem extends vscode.TreeItem {
 	constructor(
 		matchingGroup: MatchingGroup,
 		filePath: string = "",
-		matchingProject?: Project
+		matchingProject?: Project,
+		// All groups of the reference, when there are several
+		groupNames?: string[]
 	) {
 		// Show the filename as the label
-		super("Group: " + (matchingGroup?.name ?? "-"));
+		super(
+			groupNames && groupNames.length > 1
+				? `Groups: ${groupNames.join(", ")}`
+				: "Group: " + (matchingGroup?.name ?? "-")
+		);
 
 		if (filePath && !matchingProject?.name) {
 			this.contextValue = "multiProjectsDiff.noValidGroup";
@@ -137,22 +568,62 @@ export class ProjectDiffView
 	private matchingProject: Project | undefined;
 	private matchingGroup: MatchingGroup;
 	private referenceFilePath: string | null = null;
+	private folderResults: FolderProjectResult[] | null = null;
+	private compareRef: string | null = null;
+	private referenceContentHash: string | null = null;
+	private groupByVersion = false;
+	private groupResults: GroupResults[] | null = null;
+	// Names of group nodes the user collapsed
+	private collapsedGroups = new Set<string>();
+
+	public setGroupByVersion(enabled: boolean): void {
+		this.groupByVersion = enabled;
+		this._onDidChangeTreeData.fire();
+	}
+
+	// Expansion is tracked rather than fired: the tree already shows it
+	public setCollapsedGroups(names: Iterable<string>): void {
+		this.collapsedGroups = new Set(names);
+	}
+
+	// Results were updated in place, e.g. after a compared file changed on disk
+	public redraw(): void {
+		this._onDidChangeTreeData.fire();
+	}
+
+	// Re-reads the hunks of a project after one was applied
+	public refreshItem(item: DiffItem): void {
+		this._onDidChangeTreeData.fire(item);
+	}
 
 	public refresh({
 		filePath,
 		results,
+		folderResults,
 		matchingProject,
 		matchingGroup,
 		referenceFilePath,
+		compareRef,
+		referenceContentHash,
+		groupResults,
 	}: {
 		filePath: string | null;
 		results: DiffResult[];
+		folderResults?: FolderProjectResult[] | null;
+		// Set when the reference belongs to several groups; `results` are those of the first
+		groupResults?: GroupResults[] | null;
 		matchingProject?: Project;
 		matchingGroup: MatchingGroup;
 		referenceFilePath?: string | null;
+		compareRef?: string | null;
+		referenceContentHash?: string | null;
 	}): void {
 		this.currentFilePath = filePath;
 		this.currentResults = results;
+		this.folderResults = folderResults ?? null;
+		this.groupResults = groupResults && groupResults.length > 1 ? groupResults : null;
+		this.compareRef = compareRef ?? null;
+		this.referenceContentHash = referenceContentHash ?? null;
 		if (matchingProject !== undefined) {
 			this.matchingProject = matchingProject;
 		}
@@ -169,18 +640,37 @@ export class ProjectDiffView
 		return element;
 	}
 
-	getChildren(): vscode.TreeItem[] {
+	getChildren(element?: vscode.TreeItem): vscode.TreeItem[] | Promise<vscode.TreeItem[]> {
+		if (element instanceof DiffItem && element.hasHunks) {
+			return this.hunkItems(element);
+		}
+		if (element instanceof GroupResultsItem) {
+			return this.resultItems(element.groupResults.results, element.groupResults.group.name);
+		}
+		if (
+			element instanceof FolderProjectItem ||
+			element instanceof VersionClusterItem ||
+			element instanceof DiffItem
+		) {
+			return element.getChildren();
+		}
+		if (element) {
+			return [];
+		}
+
 		const topGroupItem = new TopGroupItem(
 			this.matchingGroup,
 			this.currentFilePath ?? "",
-			this.matchingProject
+			this.matchingProject,
+			this.groupResults?.map((g) => g.group.name)
 		);
 
 		// Create a top item for the "Refresh" button
 		const topItem = new TopDiffItem(
 			this.currentFilePath ?? "",
 			this.matchingProject,
-			this.referenceFilePath ?? undefined
+			this.referenceFilePath ?? undefined,
+			this.compareRef ?? undefined
 		);
 
 		// If no current file open or no results, show refresh icon only
@@ -188,17 +678,69 @@ export class ProjectDiffView
 			return [topGroupItem, topItem];
 		}
 
+		// Folder mode: one expandable node per project
+		if (this.folderResults) {
+			const projectItems = this.folderResults.map(
+				(res) => new FolderProjectItem(res)
+			);
+			return [topGroupItem, topItem, ...projectItems];
+		}
+
+		// One expandable node per group the reference belongs to
+		if (this.groupResults) {
+			const groupItems = this.groupResults.map(
+				(g) => new GroupResultsItem(g, !this.collapsedGroups.has(g.group.name))
+			);
+			return [topGroupItem, topItem, ...groupItems];
+		}
+
+		return [topGroupItem, topItem, ...this.resultItems(this.currentResults)];
+	}
+
+	// Documents rather than files on disk, so unsaved edits show up in the hunks
+	private async hunkItems(item: DiffItem): Promise<vscode.TreeItem[]> {
+		const referenceFilePath = item.diff.baseFilePath ?? this.referenceFilePath;
+		if (!referenceFilePath) {
+			return [];
+		}
+		try {
+			const [referenceDoc, targetDoc] = await Promise.all([
+				vscode.workspace.openTextDocument(vscode.Uri.file(referenceFilePath)),
+				vscode.workspace.openTextDocument(vscode.Uri.file(item.diff.compareFilePath)),
+			]);
+			const hunks = computeHunks(referenceDoc.getText(), targetDoc.getText());
+			if (hunks.length === 0) {
+				return [new vscode.TreeItem("No differences")];
+			}
+			return hunks.map((hunk) => new HunkItem(hunk, item, referenceFilePath));
+		} catch (err: any) {
+			return [new vscode.TreeItem(`Cannot read hunks: ${err?.message ?? err}`)];
+		}
+	}
+
+	// File mode rows: version clusters or one item per project
+	private resultItems(results: DiffResult[], scope?: string): vscode.TreeItem[] {
+		// Group projects sharing the same content into version clusters
+		if (this.groupByVersion) {
+			const clusters = clusterByContent(
+				results,
+				this.referenceContentHash ?? undefined
+			).map((c) => new VersionClusterItem(c, scope));
+			const unclustered = results
+				.filter((r) => !r.fileExists || !r.contentHash)
+				.map((r) => new DiffItem(r, false, scope));
+			return [...clusters, ...unclustered];
+		}
+
 		// Create DiffItem for each result
 		// Mark items that match the reference file
-		const items = this.currentResults.map((res) => {
+		return results.map((res) => {
 			const isReference =
 				this.referenceFilePath !== null &&
 				(res.compareFilePath.toLowerCase() ===
 					this.referenceFilePath.toLowerCase() ||
 					res.compareFilePath === this.referenceFilePath);
-			return new DiffItem(res, isReference);
+			return new DiffItem(res, isReference, scope);
 		});
-
-		return [topGroupItem, topItem, ...items];
 	}
 }
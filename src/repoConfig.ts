@@ -0,0 +1,206 @@
+import { promises as fsp } from "fs";
+import * as path from "path";
+import * as jsonc from "jsonc-parser";
+import { DiffGroup, Project } from "./compare";
+import { expandPathVariables, resolveDiffGroups } from "./discovery";
+import { isSamePath } from "./fileUtils";
+import { patternError } from "./normalization";
+
+// Checked into a repository root; paths in it are relative to the file
+export const REPO_CONFIG_FILE = ".multiprojectsdiff.json";
+
+export interface ConfigPosition {
+	line: number;
+	character: number;
+}
+
+export interface ConfigProblem {
+	filePath: string;
+	message: string;
+	severity: "error" | "warning" | "information";
+	start: ConfigPosition;
+	end: ConfigPosition;
+}
+
+export interface RepoConfig {
+	filePath: string;
+	// Valid groups with absolute workspace paths, before discovery
+	sourceGroups: DiffGroup[];
+	// The same groups with their discovery rules expanded
+	groups: DiffGroup[];
+	problems: ConfigProblem[];
+	// Where each group's name is, for problems found when merging
+	nameRanges: Map<string, { start: ConfigPosition; end: ConfigPosition }>;
+}
+
+function positionAt(text: string, offset: number): ConfigPosition {
+	let line = 0;
+	let lineStart = 0;
+	for (let i = 0; i < offset && i < text.length; i++) {
+		if (text[i] === "\n") {
+			line++;
+			lineStart = i + 1;
+		}
+	}
+	return { line, character: offset - lineStart };
+}
+
+function isInside(child: string, parent: string): boolean {
+	const rel = path.relative(parent, child);
+	return rel !== "" && !rel.startsWith("..") && !path.isAbsolute(rel);
+}
+
+async function isDirectory(p: string): Promise<boolean | undefined> {
+	try {
+		return (await fsp.stat(p)).isDirectory();
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Reads and validates a repository config. Returns null when the file does not exist.
+ * Invalid groups and workspaces are dropped and reported as problems with their location
+ * in the file; suspicious ones (missing folders, overlapping workspaces) are kept with a warning.
+ */
+export async function loadRepoConfig(
+	filePath: string,
+	variables: Record<string, string> = {}
+): Promise<RepoConfig | null> {
+	let text: string;
+	try {
+		text = await fsp.readFile(filePath, "utf8");
+	} catch {
+		return null;
+	}
+	const dir = path.dirname(filePath);
+	const problems: ConfigProblem[] = [];
+	const nameRanges: RepoConfig["nameRanges"] = new Map();
+	const rangeOf = (node: jsonc.Node | undefined) => {
+		const offset = node?.offset ?? 0;
+		return { start: positionAt(text, offset), end: positionAt(text, offset + (node?.length ?? 1)) };
+	};
+	const report = (node: jsonc.Node | undefined, severity: ConfigProblem["severity"], message: string) => {
+		problems.push({ filePath, message, severity, ...rangeOf(node) });
+	};
+
+	const errors: jsonc.ParseError[] = [];
+	const root = jsonc.parseTree(text, errors, { allowTrailingComma: true });
+	for (const e of errors) {
+		problems.push({
+			filePath,
+			message: `Invalid JSON: ${jsonc.printParseErrorCode(e.error)}`,
+			severity: "error",
+			start: positionAt(text, e.offset),
+			end: positionAt(text, e.offset + e.length),
+		});
+	}
+	const groupsNode = root && jsonc.findNodeAtLocation(root, ["diffGroups"]);
+	if (!groupsNode || groupsNode.type !== "array") {
+		report(groupsNode ?? root, "error", 'Expected a "diffGroups" array');
+		return { filePath, sourceGroups: [], groups: [], problems, nameRanges };
+	}
+
+	const sourceGroups: DiffGroup[] = [];
+	for (const groupNode of groupsNode.children ?? []) {
+		const group = jsonc.getNodeValue(groupNode);
+		const nameNode = jsonc.findNodeAtLocation(groupNode, ["name"]);
+		if (typeof group !== "object" || group === null || typeof group.name !== "string" || !group.name) {
+			report(groupNode, "error", "A diff group needs a name");
+			continue;
+		}
+		if (nameRanges.has(group.name)) {
+			report(nameNode, "error", `Duplicate group name "${group.name}"; only the first group is used`);
+			continue;
+		}
+		nameRanges.set(group.name, rangeOf(nameNode));
+		if (!Array.isArray(group.workspaces) && !Array.isArray(group.discover)) {
+			report(nameNode, "error", `Group "${group.name}" needs a "workspaces" or "discover" array`);
+			continue;
+		}
+
+		const workspacesNode = jsonc.findNodeAtLocation(groupNode, ["workspaces"]);
+		if (workspacesNode && workspacesNode.type !== "array") {
+			report(workspacesNode, "error", '"workspaces" must be an array');
+		}
+		const workspaces: Project[] = [];
+		const workspaceNodes = workspacesNode?.type === "array" ? workspacesNode.children ?? [] : [];
+		for (let i = 0; i < workspaceNodes.length; i++) {
+			const ws = group.workspaces[i];
+			const pathNode = jsonc.findNodeAtLocation(workspaceNodes[i], ["path"]) ?? workspaceNodes[i];
+			if (typeof ws !== "object" || ws === null || typeof ws.name !== "string" || typeof ws.path !== "string") {
+				report(workspaceNodes[i], "error", "A workspace needs a name and a path");
+				continue;
+			}
+			const resolved = path.resolve(dir, expandPathVariables(ws.path, variables));
+			const isDir = await isDirectory(resolved);
+			if (isDir === undefined) {
+				report(pathNode, "warning", `${resolved} does not exist`);
+			} else if (!isDir) {
+				report(pathNode, "warning", `${resolved} is not a folder`);
+			}
+			for (const other of workspaces) {
+				if (isSamePath(other.path, resolved)) {
+					report(pathNode, "warning", `Same folder as workspace "${other.name}"`);
+				} else if (isInside(resolved, other.path) || isInside(other.path, resolved)) {
+					report(
+						pathNode,
+						"warning",
+						`Overlaps workspace "${other.name}"; files in both folders are matched to the first one listed`
+					);
+				}
+			}
+			workspaces.push({ ...ws, path: resolved });
+		}
+
+		// An invalid pattern would silently ignore nothing
+		const ruleNodes = jsonc.findNodeAtLocation(groupNode, ["normalization"])?.children ?? [];
+		for (const ruleNode of ruleNodes) {
+			for (const patternNode of jsonc.findNodeAtLocation(ruleNode, ["ignorePatterns"])?.children ?? []) {
+				const error = typeof patternNode.value === "string" ? patternError(patternNode.value) : undefined;
+				if (error) {
+					report(patternNode, "error", `Invalid ignore pattern; it is not applied: ${error}`);
+				}
+			}
+		}
+		sourceGroups.push({ ...group, workspaces });
+	}
+
+	const groups = await resolveDiffGroups(sourceGroups, { baseDir: dir, variables });
+	return { filePath, sourceGroups, groups, problems, nameRanges };
+}
+
+/**
+ * Combines groups from user settings with those of repository configs. A settings group
+ * overrides a repository group of the same name; between repository configs the first wins.
+ */
+export function mergeDiffGroups(
+	settingsGroups: DiffGroup[],
+	repoConfigs: RepoConfig[]
+): { groups: DiffGroup[]; problems: ConfigProblem[] } {
+	const groups = [...settingsGroups];
+	const problems: ConfigProblem[] = [];
+	const sources = new Map<string, string | null>(settingsGroups.map((g) => [g.name, null]));
+	for (const config of repoConfigs) {
+		for (const group of config.groups) {
+			const range = config.nameRanges.get(group.name);
+			if (sources.has(group.name)) {
+				const source = sources.get(group.name);
+				if (range) {
+					problems.push({
+						filePath: config.filePath,
+						message: source
+							? `Group "${group.name}" is also defined in ${source}, which takes precedence`
+							: `Group "${group.name}" is overridden by the group of the same name in user settings`,
+						severity: "information",
+						...range,
+					});
+				}
+				continue;
+			}
+			sources.set(group.name, config.filePath);
+			groups.push(group);
+		}
+	}
+	return { groups, problems };
+}
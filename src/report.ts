@@ -0,0 +1,371 @@
+import { promises as fsp } from "fs";
+import * as path from "path";
+import { createTwoFilesPatch } from "diff";
+import { DiffResult, FolderProjectResult } from "./types";
+import { FolderFileStatus, getFolderFileStatus } from "./folderDiff";
+import { readFileAtRef } from "./git";
+import { formatBytes } from "./fileUtils";
+
+export type ReportFormat = "markdown" | "html" | "json";
+
+export interface ReportFile {
+	// Relative to the project (folder mode) or the reference file's name (file mode)
+	path: string;
+	status: FolderFileStatus;
+	lines?: { added: number; removed: number };
+	keys?: { added: number; removed: number; changed: number };
+	similarity?: number;
+	binary?: { size: number; identical: boolean };
+	approximate?: boolean;
+	// Why the comparison failed
+	error?: string;
+	// Unified diff from the reference to the project's file, when requested
+	diff?: string;
+}
+
+export interface ReportProject {
+	name: string;
+	path: string;
+	folderMissing?: boolean;
+	files: ReportFile[];
+}
+
+/**
+ * A snapshot of the tree. The JSON form has no timestamps and sorts projects and files,
+ * so two reports of an unchanged tree are identical.
+ */
+export interface DriftReport {
+	version: 1;
+	mode: "file" | "folder";
+	group: string;
+	reference: { project: string; path: string };
+	compareRef?: string;
+	summary: Record<FolderFileStatus, number>;
+	projects: ReportProject[];
+}
+
+export interface ReportInput {
+	mode: "file" | "folder";
+	groupName: string;
+	referenceProject: string;
+	referencePath: string;
+	compareRef?: string;
+	results: DiffResult[];
+	folderResults?: FolderProjectResult[] | null;
+	includeDiffs: boolean;
+}
+
+async function readTarget(res: DiffResult): Promise<string | null> {
+	try {
+		if (res.compareRef && !res.compareRefFallback) {
+			const read = await readFileAtRef(res.compareFilePath, res.compareRef);
+			return read.status === "ok" ? read.content : null;
+		}
+		return await fsp.readFile(res.compareFilePath, "utf8");
+	} catch {
+		return null;
+	}
+}
+
+async function toReportFile(
+	res: DiffResult,
+	displayPath: string,
+	basePath: string,
+	includeDiffs: boolean
+): Promise<ReportFile> {
+	const status = getFolderFileStatus(res);
+	const file: ReportFile = { path: displayPath.split(path.sep).join("/"), status };
+	if (status === "error") {
+		file.error = res.error;
+		return file;
+	}
+	if (status === "missing" || status === "onlyInTarget") {
+		return file;
+	}
+	if (res.binary) {
+		file.binary = { size: res.binary.size, identical: res.binary.identical };
+		return file;
+	}
+	if (res.structured) {
+		const { added, removed, changed } = res.structured;
+		file.keys = { added, removed, changed };
+	} else {
+		file.lines = { added: res.diffDetail.added, removed: res.diffDetail.removed };
+	}
+	if (res.stats) {
+		file.similarity = res.stats.similarity;
+	}
+	if (res.approximate) {
+		file.approximate = true;
+	}
+	// Approximate results are large files; their patches would swamp the report
+	if (includeDiffs && status === "differs" && !res.approximate) {
+		const [baseText, targetText] = await Promise.all([
+			fsp.readFile(basePath, "utf8").catch(() => null),
+			readTarget(res),
+		]);
+		if (baseText !== null && targetText !== null) {
+			file.diff = createTwoFilesPatch(
+				`reference/${file.path}`,
+				`${res.projectName}/${file.path}`,
+				baseText,
+				targetText,
+				undefined,
+				undefined,
+				{ context: 3 }
+			);
+		}
+	}
+	return file;
+}
+
+// Locale-independent, so the same run gives the same bytes on every machine
+function compareCodeUnits(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export async function buildReport(input: ReportInput): Promise<DriftReport> {
+	const projects: ReportProject[] = [];
+	if (input.mode === "folder") {
+		for (const folder of input.folderResults ?? []) {
+			const files = await Promise.all(
+				folder.files.map((res) =>
+					toReportFile(
+						res,
+						res.relativePath ?? path.basename(res.compareFilePath),
+						res.baseFilePath ?? path.join(input.referencePath, res.relativePath ?? ""),
+						input.includeDiffs
+					)
+				)
+			);
+			projects.push({
+				name: folder.projectName,
+				path: folder.compareFolderPath,
+				...(folder.folderExists ? {} : { folderMissing: true }),
+				files: files.sort((a, b) => compareCodeUnits(a.path, b.path)),
+			});
+		}
+	} else {
+		for (const res of input.results) {
+			projects.push({
+				name: res.projectName,
+				path: res.compareWorkspaceFilePath,
+				files: [
+					await toReportFile(
+						res,
+						path.basename(input.referencePath),
+						input.referencePath,
+						input.includeDiffs
+					),
+				],
+			});
+		}
+	}
+	projects.sort((a, b) => compareCodeUnits(a.name, b.name));
+
+	const summary: Record<FolderFileStatus, number> = {
+		identical: 0,
+		differs: 0,
+		missing: 0,
+		onlyInTarget: 0,
+		error: 0,
+	};
+	for (const project of projects) {
+		for (const file of project.files) {
+			summary[file.status]++;
+		}
+	}
+
+	return {
+		version: 1,
+		mode: input.mode,
+		group: input.groupName,
+		reference: { project: input.referenceProject, path: input.referencePath },
+		...(input.compareRef ? { compareRef: input.compareRef } : {}),
+		summary,
+		projects,
+	};
+}
+
+const STATUS_LABELS: Record<FolderFileStatus, string> = {
+	identical: "Identical",
+	differs: "Differs",
+	missing: "Missing",
+	onlyInTarget: "Only in target",
+	error: "Error",
+};
+
+function describeChanges(file: ReportFile): string {
+	if (file.error) {
+		return file.error;
+	}
+	if (file.binary) {
+		return `binary, ${formatBytes(file.binary.size)}`;
+	}
+	if (file.keys) {
+		return `+${file.keys.added} -${file.keys.removed} ~${file.keys.changed} keys`;
+	}
+	if (file.lines) {
+		return `${file.approximate ? "≈" : ""}+${file.lines.added} -${file.lines.removed}`;
+	}
+	return "";
+}
+
+function summaryLine(report: DriftReport): string {
+	return (Object.keys(STATUS_LABELS) as FolderFileStatus[])
+		.filter((s) => report.summary[s] > 0)
+		.map((s) => `${report.summary[s]} ${STATUS_LABELS[s].toLowerCase()}`)
+		.join(", ") || "nothing compared";
+}
+
+export function renderJson(report: DriftReport): string {
+	return JSON.stringify(report, null, 2) + "\n";
+}
+
+function escapeMarkdownCell(text: string): string {
+	return text.replace(/\|/g, "\\|");
+}
+
+export function renderMarkdown(report: DriftReport, generatedAt: Date = new Date()): string {
+	const lines: string[] = [
+		"# Multi Projects Diff Report",
+		"",
+		`- **Group:** ${report.group}`,
+		`- **Reference:** ${report.reference.project} — \`${report.reference.path}\``,
+		...(report.compareRef ? [`- **Compared at:** \`${report.compareRef}\``] : []),
+		`- **Summary:** ${summaryLine(report)}`,
+		`- **Generated:** ${generatedAt.toISOString()}`,
+		"",
+		"| Project | File | Status | Changes | Similarity |",
+		"| --- | --- | --- | --- | --- |",
+	];
+	for (const project of report.projects) {
+		if (project.folderMissing && project.files.every((f) => f.status === "missing")) {
+			lines.push(`| ${escapeMarkdownCell(project.name)} | | Folder missing | | |`);
+			continue;
+		}
+		for (const file of project.files) {
+			lines.push(
+				`| ${escapeMarkdownCell(project.name)} | ${escapeMarkdownCell(file.path)} | ` +
+					`${STATUS_LABELS[file.status]} | ${describeChanges(file)} | ` +
+					`${file.similarity !== undefined ? `${file.similarity}%` : ""} |`
+			);
+		}
+	}
+	const withDiffs = report.projects.flatMap((p) =>
+		p.files.filter((f) => f.diff).map((f) => ({ project: p.name, file: f }))
+	);
+	if (withDiffs.length > 0) {
+		lines.push("", "## Diffs");
+		for (const { project, file } of withDiffs) {
+			// Use a fence longer than any backtick run in the patch
+			const longest = Math.max(2, ...(file.diff!.match(/`+/g) ?? []).map((m) => m.length));
+			const fence = "`".repeat(longest + 1);
+			lines.push("", `### ${project}: ${file.path}`, "", `${fence}diff`, file.diff!.trimEnd(), fence);
+		}
+	}
+	return lines.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+export function renderHtml(report: DriftReport, generatedAt: Date = new Date()): string {
+	const rows: string[] = [];
+	for (const project of report.projects) {
+		for (const file of project.files) {
+			const diff = file.diff
+				? `<details><summary>Diff</summary><pre>${escapeHtml(file.diff)}</pre></details>`
+				: "";
+			rows.push(
+				`<tr class="${file.status}"><td>${escapeHtml(project.name)}</td>` +
+					`<td>${escapeHtml(file.path)}${diff}</td>` +
+					`<td>${STATUS_LABELS[file.status]}</td>` +
+					`<td>${escapeHtml(describeChanges(file))}</td>` +
+					`<td>${file.similarity !== undefined ? `${file.similarity}%` : ""}</td></tr>`
+			);
+		}
+	}
+	const meta = [
+		["Group", report.group],
+		["Reference", `${report.reference.project} — ${report.reference.path}`],
+		...(report.compareRef ? [["Compared at", report.compareRef]] : []),
+		["Summary", summaryLine(report)],
+		["Generated", generatedAt.toISOString()],
+	];
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Multi Projects Diff Report</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+tr.identical td:nth-child(3) { color: #2e7d32; }
+tr.differs td:nth-child(3) { color: #e65100; }
+tr.missing td:nth-child(3), tr.onlyInTarget td:nth-child(3), tr.error td:nth-child(3) { color: #c62828; }
+pre { background: #f8f8f8; padding: 8px; overflow-x: auto; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 4px 12px; }
+dt { font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>Multi Projects Diff Report</h1>
+<dl>
+${meta.map(([k, v]) => `<dt>${k}</dt><dd>${escapeHtml(v)}</dd>`).join("\n")}
+</dl>
+<table>
+<thead><tr><th>Project</th><th>File</th><th>Status</th><th>Changes</th><th>Similarity</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+// Plain-text table for terminals
+export function renderText(report: DriftReport): string {
+	const rows: string[][] = [["PROJECT", "FILE", "STATUS", "CHANGES", "SIMILARITY"]];
+	for (const project of report.projects) {
+		for (const file of project.files) {
+			rows.push([
+				project.name,
+				file.path,
+				STATUS_LABELS[file.status],
+				describeChanges(file),
+				file.similarity !== undefined ? `${file.similarity}%` : "",
+			]);
+		}
+	}
+	const widths = rows[0].map((_, col) => Math.max(...rows.map((row) => row[col].length)));
+	const lines = rows.map((row) =>
+		row.map((cell, col) => cell.padEnd(widths[col])).join("  ").trimEnd()
+	);
+	lines.push(
+		"",
+		`Group ${report.group}, reference ${report.reference.project}` +
+			(report.compareRef ? ` at ${report.compareRef}` : "") +
+			`: ${summaryLine(report)}`
+	);
+	return lines.join("\n") + "\n";
+}
+
+export function renderReport(report: DriftReport, format: ReportFormat): string {
+	switch (format) {
+		case "markdown":
+			return renderMarkdown(report);
+		case "html":
+			return renderHtml(report);
+		default:
+			return renderJson(report);
+	}
+}
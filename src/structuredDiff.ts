@@ -0,0 +1,153 @@
+import * as path from "path";
+import * as jsonc from "jsonc-parser";
+import * as YAML from "yaml";
+import { KeyChange, StructuredDiff, StructuredFormat } from "./types";
+
+// Keep results small enough to post between threads and render in the tree
+const MAX_REPORTED_CHANGES = 500;
+const MAX_VALUE_PREVIEW = 80;
+
+const STRUCTURED_EXTS: Record<string, StructuredFormat> = {
+	".json": "json",
+	".jsonc": "json",
+	".json5": "json",
+	".code-workspace": "json",
+	".yaml": "yaml",
+	".yml": "yaml",
+};
+
+export function structuredFormatFor(filePath: string): StructuredFormat | null {
+	return STRUCTURED_EXTS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Parses JSON/JSONC (comments and trailing commas allowed) or YAML.
+ * Throws when the text is not valid for the format.
+ */
+export function parseStructured(text: string, format: StructuredFormat): unknown {
+	if (format === "yaml") {
+		return YAML.parse(text);
+	}
+	const errors: jsonc.ParseError[] = [];
+	const value = jsonc.parse(text, errors, { allowTrailingComma: true });
+	if (errors.length > 0) {
+		throw new Error(`Invalid JSON: ${jsonc.printParseErrorCode(errors[0].error)}`);
+	}
+	return value;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+	return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function preview(v: unknown): string {
+	const text = JSON.stringify(v) ?? String(v);
+	return text.length > MAX_VALUE_PREVIEW ? text.slice(0, MAX_VALUE_PREVIEW - 1) + "…" : text;
+}
+
+function childPath(parent: string, key: string | number): string {
+	if (typeof key === "number") {
+		return `${parent}[${key}]`;
+	}
+	if (/^[A-Za-z_$][\w$-]*$/.test(key)) {
+		return parent ? `${parent}.${key}` : key;
+	}
+	return `${parent}[${JSON.stringify(key)}]`;
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((v, i) => isEqualValue(v, b[i]));
+	}
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const ak = Object.keys(a);
+		const bk = Object.keys(b);
+		return ak.length === bk.length && ak.every((k) => k in b && isEqualValue(a[k], b[k]));
+	}
+	return false;
+}
+
+/**
+ * Key-level comparison of two parsed documents. Key order and formatting are ignored;
+ * arrays are compared by index. "added" keys exist only in `compare`, "removed" only in `base`.
+ */
+export function diffStructured(
+	base: unknown,
+	compare: unknown,
+	format: StructuredFormat
+): StructuredDiff {
+	const result: StructuredDiff = {
+		format,
+		added: 0,
+		removed: 0,
+		changed: 0,
+		changes: [],
+		truncated: false,
+	};
+	const record = (change: KeyChange) => {
+		result[change.kind]++;
+		if (result.changes.length < MAX_REPORTED_CHANGES) {
+			result.changes.push(change);
+		} else {
+			result.truncated = true;
+		}
+	};
+
+	const walk = (a: unknown, b: unknown, at: string) => {
+		if (isPlainObject(a) && isPlainObject(b)) {
+			for (const key of Object.keys(a)) {
+				const p = childPath(at, key);
+				if (!(key in b)) {
+					record({ path: p, kind: "removed", before: preview(a[key]) });
+				} else {
+					walk(a[key], b[key], p);
+				}
+			}
+			for (const key of Object.keys(b)) {
+				if (!(key in a)) {
+					record({ path: childPath(at, key), kind: "added", after: preview(b[key]) });
+				}
+			}
+			return;
+		}
+		if (Array.isArray(a) && Array.isArray(b)) {
+			const common = Math.min(a.length, b.length);
+			for (let i = 0; i < common; i++) {
+				walk(a[i], b[i], childPath(at, i));
+			}
+			for (let i = common; i < a.length; i++) {
+				record({ path: childPath(at, i), kind: "removed", before: preview(a[i]) });
+			}
+			for (let i = common; i < b.length; i++) {
+				record({ path: childPath(at, i), kind: "added", after: preview(b[i]) });
+			}
+			return;
+		}
+		if (!isEqualValue(a, b)) {
+			record({ path: at || "(root)", kind: "changed", before: preview(a), after: preview(b) });
+		}
+	};
+
+	walk(base, compare, "");
+	return result;
+}
+
+/**
+ * Swaps the sides of a structured diff, for results looked up in the reverse direction.
+ */
+export function invertStructuredDiff(diff: StructuredDiff): StructuredDiff {
+	return {
+		...diff,
+		added: diff.removed,
+		removed: diff.added,
+		changes: diff.changes.map((c) => ({
+			path: c.path,
+			kind: c.kind === "added" ? "removed" : c.kind === "removed" ? "added" : "changed",
+			before: c.after,
+			after: c.before,
+		})),
+	};
+}
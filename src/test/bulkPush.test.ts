@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PushHistory } from '../bulkPush';
+
+suite('Bulk push', () => {
+	let root: string;
+	let storageDir: string;
+	let source: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-push-'));
+		storageDir = path.join(root, 'history');
+		source = path.join(root, 'source.txt');
+		fs.writeFileSync(source, 'new');
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('push overwrites and creates targets, undo restores them', async () => {
+		const existing = path.join(root, 'a', 'file.txt');
+		const created = path.join(root, 'b', 'nested', 'file.txt');
+		fs.mkdirSync(path.dirname(existing), { recursive: true });
+		fs.writeFileSync(existing, 'old');
+
+		const history = new PushHistory(storageDir);
+		const op = await history.push([
+			{ projectName: 'a', sourcePath: source, targetPath: existing },
+			{ projectName: 'b', sourcePath: source, targetPath: created },
+		]);
+		assert.strictEqual(fs.readFileSync(existing, 'utf8'), 'new');
+		assert.strictEqual(fs.readFileSync(created, 'utf8'), 'new');
+		assert.ok(op.entries[0].backupPath);
+		assert.strictEqual(op.entries[1].backupPath, null);
+		assert.ok(history.canUndo);
+
+		assert.strictEqual((await history.undoLast())?.id, op.id);
+		assert.strictEqual(fs.readFileSync(existing, 'utf8'), 'old');
+		assert.ok(!fs.existsSync(created));
+		assert.ok(!history.canUndo);
+	});
+
+	test('a failed push restores the targets already written', async () => {
+		const existing = path.join(root, 'file.txt');
+		fs.writeFileSync(existing, 'old');
+		const history = new PushHistory(storageDir);
+		await assert.rejects(
+			history.push([
+				{ projectName: 'a', sourcePath: source, targetPath: existing },
+				{ projectName: 'b', sourcePath: path.join(root, 'missing.txt'), targetPath: path.join(root, 'other.txt') },
+			])
+		);
+		assert.strictEqual(fs.readFileSync(existing, 'utf8'), 'old');
+		assert.ok(!history.canUndo);
+	});
+
+	test('a copy failing over an existing target restores every target', async () => {
+		const first = path.join(root, 'first.txt');
+		const second = path.join(root, 'second.txt');
+		fs.writeFileSync(first, 'old first');
+		fs.writeFileSync(second, 'old second');
+		const history = new PushHistory(storageDir);
+		await assert.rejects(
+			history.push([
+				{ projectName: 'a', sourcePath: source, targetPath: first },
+				{ projectName: 'b', sourcePath: path.join(root, 'missing.txt'), targetPath: second },
+			])
+		);
+		assert.strictEqual(fs.readFileSync(first, 'utf8'), 'old first');
+		assert.strictEqual(fs.readFileSync(second, 'utf8'), 'old second');
+		assert.deepStrictEqual(fs.readdirSync(storageDir), []);
+	});
+
+	test('a failed undo keeps the operation', async () => {
+		const target = path.join(root, 'file.txt');
+		fs.writeFileSync(target, 'old');
+		const history = new PushHistory(storageDir);
+		const op = await history.push([{ projectName: 'a', sourcePath: source, targetPath: target }]);
+		const backupPath = op.entries[0].backupPath!;
+		fs.renameSync(backupPath, `${backupPath}.moved`);
+		await assert.rejects(history.undoLast());
+		assert.ok(history.canUndo);
+
+		fs.renameSync(`${backupPath}.moved`, backupPath);
+		assert.strictEqual((await history.undoLast())?.id, op.id);
+		assert.strictEqual(fs.readFileSync(target, 'utf8'), 'old');
+	});
+
+	test('operations survive a reload and old ones are trimmed', async () => {
+		const target = path.join(root, 'file.txt');
+		const history = new PushHistory(storageDir, 2);
+		for (let i = 0; i < 3; i++) {
+			await history.push([{ projectName: 'a', sourcePath: source, targetPath: target }]);
+		}
+		assert.strictEqual(fs.readdirSync(storageDir).length, 2);
+
+		const reloaded = new PushHistory(storageDir, 2);
+		await reloaded.load();
+		assert.ok(reloaded.canUndo);
+		assert.ok(await reloaded.undoLast());
+		assert.ok(await reloaded.undoLast());
+		assert.strictEqual(await reloaded.undoLast(), null);
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const CLI_PATH = path.join(__dirname, '..', 'cli.js');
+
+function runCli(cwd: string, args: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+	return new Promise((resolve) => {
+		execFile(process.execPath, [CLI_PATH, ...args], { cwd }, (err, stdout, stderr) => {
+			const code = err ? (typeof err.code === 'number' ? err.code : 1) : 0;
+			resolve({ code, stdout, stderr });
+		});
+	});
+}
+
+suite('Command-line runner', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-cli-'));
+		for (const name of ['a', 'b', 'c']) {
+			fs.mkdirSync(path.join(root, name));
+		}
+		fs.writeFileSync(path.join(root, 'a', 'x.txt'), 'one\ntwo\n');
+		fs.writeFileSync(path.join(root, 'b', 'x.txt'), 'one\ntwo\n');
+		fs.writeFileSync(path.join(root, 'c', 'x.txt'), 'one\nTWO\n');
+		const workspaces = ['a', 'b', 'c'].map((name) => ({ name, path: name }));
+		fs.writeFileSync(
+			path.join(root, '.multiprojectsdiff.json'),
+			JSON.stringify({ diffGroups: [{ name: 'apps', workspaces }] })
+		);
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('fails when lines changed beyond the threshold', async () => {
+		const { code, stdout, stderr } = await runCli(root, ['a/x.txt', '--format', 'json']);
+		assert.strictEqual(code, 1, stderr);
+		const report = JSON.parse(stdout);
+		assert.deepStrictEqual(report.projects.map((p: { name: string }) => p.name), ['b', 'c']);
+		assert.deepStrictEqual(report.summary, { identical: 1, differs: 1, missing: 0, onlyInTarget: 0, error: 0 });
+		assert.ok(stderr.includes('2 changed line(s) (allowed 0)'), stderr);
+
+		assert.strictEqual((await runCli(root, ['a/x.txt', '--max-lines', '2'])).code, 0);
+	});
+
+	test('fails when a file could not be compared', async () => {
+		fs.rmSync(path.join(root, 'c', 'x.txt'));
+		fs.mkdirSync(path.join(root, 'c', 'x.txt'));
+		const { code, stdout, stderr } = await runCli(root, ['a/x.txt', '--max-lines', '100']);
+		assert.strictEqual(code, 1);
+		assert.ok(/^c\s+x\.txt\s+Error/m.test(stdout), stdout);
+		assert.ok(stderr.includes('1 file(s) could not be compared'), stderr);
+	});
+
+	test('reports usage errors with exit code 2', async () => {
+		const { code, stderr } = await runCli(root, ['--format', 'pdf']);
+		assert.strictEqual(code, 2);
+		assert.ok(stderr.includes('Unknown format "pdf"'), stderr);
+	});
+});
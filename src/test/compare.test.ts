@@ -0,0 +1,233 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	CompareCache,
+	DiffGroup,
+	changedGroupRoots,
+	compareFileAcrossGroup,
+	compareFolderAcrossGroup,
+	compareFolderFile,
+	createDiffWorkerPool,
+	findMatchingGroups,
+} from '../compare';
+import { DiffResult, DiffTaskParams } from '../types';
+import { WorkerPool } from '../workerPool';
+
+// Writes `files` (relative path -> content; null makes a directory) below `root`
+function writeTree(root: string, files: Record<string, string | null>) {
+	for (const [rel, content] of Object.entries(files)) {
+		const p = path.join(root, rel);
+		if (content === null) {
+			fs.mkdirSync(p, { recursive: true });
+		} else {
+			fs.mkdirSync(path.dirname(p), { recursive: true });
+			fs.writeFileSync(p, content);
+		}
+	}
+}
+
+suite('Compare core', () => {
+	let root: string;
+	let group: DiffGroup;
+	let pool: WorkerPool<DiffTaskParams, DiffResult>;
+
+	suiteSetup(() => {
+		pool = createDiffWorkerPool(1);
+	});
+
+	suiteTeardown(async () => {
+		await pool.close();
+	});
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-compare-'));
+		group = {
+			name: 'apps',
+			ignoreWhiteSpace: false,
+			workspaces: ['a', 'b', 'c', 'd'].map((name) => ({ name, path: path.join(root, name) })),
+		};
+		writeTree(root, {
+			'a/x.txt': 'one\ntwo\n',
+			'a/src/keep.txt': 'same\n',
+			'a/src/node_modules/dep.txt': 'ignored\n',
+			'b/x.txt': 'one\ntwo\n',
+			'b/src/keep.txt': 'changed\n',
+			'b/src/extra.txt': 'only here\n',
+			// A directory where the file should be cannot be compared
+			'c/x.txt': null,
+			'c/src/keep.txt': null,
+			'd': null,
+		});
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('compares a file with every other project and leaves the reference out', async () => {
+		const results = await compareFileAcrossGroup(pool, group, group.workspaces[0], path.join(root, 'a', 'x.txt'));
+		assert.deepStrictEqual(results.map((r) => r.projectName), ['b', 'c', 'd']);
+		const [b, c, d] = results;
+		assert.strictEqual(b.diffLineCount, 0);
+		assert.ok(b.fileExists);
+		assert.ok(c.error, 'a directory cannot be read as a file');
+		assert.strictEqual(c.compareFilePath, path.join(root, 'c', 'x.txt'));
+		assert.ok(!d.fileExists);
+	});
+
+	test('reports each result and each failure', async () => {
+		const seen: string[] = [];
+		const failed: string[] = [];
+		await compareFileAcrossGroup(pool, group, group.workspaces[0], path.join(root, 'a', 'x.txt'), {
+			onResult: (res) => seen.push(res.projectName),
+			onError: (project) => failed.push(project.name),
+		});
+		assert.deepStrictEqual(seen.sort(), ['b', 'd']);
+		assert.deepStrictEqual(failed, ['c']);
+	});
+
+	test('uses the cache, except for git revisions and unsaved content', async () => {
+		const stored: string[] = [];
+		const cache: CompareCache = {
+			get: async (task) =>
+				task.compareWorkspaceFilePath.endsWith('b')
+					? {
+							projectName: '',
+							diffLineCount: 7,
+							diffDetail: { added: 7, removed: 0 },
+							compareFilePath: '',
+							fileExists: true,
+							compareWorkspaceFilePath: '',
+					  }
+					: null,
+			set: (task) => {
+				stored.push(task.compareWorkspaceName);
+			},
+		};
+		const reference = path.join(root, 'a', 'x.txt');
+		const [b] = await compareFileAcrossGroup(pool, group, group.workspaces[0], reference, { cache });
+		assert.strictEqual(b.diffLineCount, 7);
+		assert.strictEqual(b.projectName, 'b');
+		assert.strictEqual(b.compareFilePath, path.join(root, 'b', 'x.txt'));
+		assert.deepStrictEqual(stored, ['d']);
+
+		stored.length = 0;
+		const [atRef] = await compareFileAcrossGroup(pool, group, group.workspaces[0], reference, {
+			cache,
+			compareRef: 'HEAD',
+		});
+		assert.strictEqual(atRef.diffLineCount, 0);
+		assert.deepStrictEqual(stored, []);
+
+		const onlyB = { ...group, workspaces: [group.workspaces[1]] };
+		const [unsaved] = await compareFileAcrossGroup(pool, onlyB, group.workspaces[0], reference, {
+			cache,
+			compareContent: 'one\n',
+		});
+		assert.deepStrictEqual(unsaved.diffDetail, { added: 0, removed: 1 });
+		assert.deepStrictEqual(stored, []);
+	});
+
+	test('compares a single target again after it changed on disk', async () => {
+		// Keyed by modification time like the extension's cache
+		const entries = new Map<string, DiffResult>();
+		const keyOf = (task: DiffTaskParams) => {
+			const comparePath = path.join(task.compareWorkspaceFilePath, task.compareRelativeFilePath);
+			return `${comparePath}:${fs.statSync(comparePath).mtimeMs}`;
+		};
+		const cache: CompareCache = {
+			get: async (task) => entries.get(keyOf(task)) ?? null,
+			set: (task, res) => {
+				entries.set(keyOf(task), res);
+			},
+		};
+		const reference = path.join(root, 'a', 'x.txt');
+		const onlyB = { ...group, workspaces: [group.workspaces[1]] };
+		const [before] = await compareFileAcrossGroup(pool, onlyB, group.workspaces[0], reference, { cache });
+		assert.strictEqual(before.diffLineCount, 0);
+
+		const target = path.join(root, 'b', 'x.txt');
+		fs.writeFileSync(target, 'one\nTWO\n');
+		fs.utimesSync(target, new Date(), new Date(Date.now() + 5000));
+		const [after] = await compareFileAcrossGroup(pool, onlyB, group.workspaces[0], reference, { cache });
+		assert.strictEqual(after.projectName, 'b');
+		assert.strictEqual(after.compareFilePath, target);
+		assert.ok(after.diffLineCount > 0);
+		assert.strictEqual(entries.size, 2);
+	});
+
+	test('compares a folder file by file', async () => {
+		const results = await compareFolderAcrossGroup(pool, group, group.workspaces[0], path.join(root, 'a', 'src'));
+		assert.deepStrictEqual(results.map((r) => [r.projectName, r.folderExists]), [
+			['b', true],
+			['c', true],
+			['d', false],
+		]);
+		const files = (i: number) =>
+			results[i].files.map((f) => [f.relativePath, f.error ? 'error' : f.onlyInTarget ? 'onlyInTarget' : f.diffLineCount]);
+		assert.deepStrictEqual(files(0), [['keep.txt', 2], ['extra.txt', 'onlyInTarget']]);
+		assert.deepStrictEqual(files(1), [['keep.txt', 'error']]);
+		assert.ok(!results[2].files[0].fileExists);
+	});
+
+	test('compares one row of a folder comparison again', async () => {
+		const referenceFolder = path.join(root, 'a', 'src');
+		const target = { ws: group.workspaces[1], folder: path.join(root, 'b', 'src') };
+		fs.writeFileSync(path.join(root, 'b', 'src', 'keep.txt'), 'same\n');
+		const row = await compareFolderFile(pool, group, group.workspaces[0], referenceFolder, target, 'keep.txt');
+		assert.deepStrictEqual(
+			[row.projectName, row.relativePath, row.baseFilePath, row.diffLineCount],
+			['b', 'keep.txt', path.join(referenceFolder, 'keep.txt'), 0]
+		);
+
+		const failed: string[] = [];
+		const broken = { ws: group.workspaces[2], folder: path.join(root, 'c', 'src') };
+		const error = await compareFolderFile(pool, group, group.workspaces[0], referenceFolder, broken, 'keep.txt', {
+			onError: (project) => failed.push(project.name),
+		});
+		assert.ok(error.error);
+		assert.strictEqual(error.relativePath, 'keep.txt');
+		assert.deepStrictEqual(failed, ['c']);
+	});
+});
+
+suite('Group settings', () => {
+	const group = (name: string, paths: string[], extra: Partial<DiffGroup> = {}): DiffGroup => ({
+		name,
+		ignoreWhiteSpace: false,
+		workspaces: paths.map((p) => ({ name: path.basename(p), path: p })),
+		...extra,
+	});
+
+	test('changedGroupRoots lists the projects of added, removed and changed groups', () => {
+		const before = [group('same', ['/s/a', '/s/b']), group('edited', ['/e/a']), group('removed', ['/r/a'])];
+		const after = [
+			group('same', ['/s/a', '/s/b']),
+			group('edited', ['/e/a', '/e/b'], { ignoreWhiteSpace: true }),
+			group('added', ['/n/a']),
+		];
+		assert.deepStrictEqual(changedGroupRoots(before, after).sort(), ['/e/a', '/e/a', '/e/b', '/n/a', '/r/a']);
+		assert.deepStrictEqual(changedGroupRoots(before, before), []);
+	});
+
+	test('findMatchingGroups returns every group containing the path, in order', () => {
+		const shared = group('shared-libs', ['/libs/ui', '/libs/core']);
+		const frontend = group('frontend', ['/apps/web', '/libs/ui']);
+		const backend = group('backend', ['/apps/api']);
+		const matches = findMatchingGroups('/libs/ui/src/button.ts', [shared, backend, frontend]);
+		assert.deepStrictEqual(matches.map((m) => [m.group.name, m.project.path]), [
+			['shared-libs', '/libs/ui'],
+			['frontend', '/libs/ui'],
+		]);
+		assert.deepStrictEqual(findMatchingGroups('/elsewhere/x.ts', [shared, backend, frontend]), []);
+	});
+
+	test('findMatchingGroups does not match sibling folders sharing a prefix', () => {
+		const services = group('services', ['/repos/api-service', '/repos/web-service']);
+		const next = group('next', ['/repos/api-service-v2']);
+		const matches = findMatchingGroups('/repos/api-service-v2/src/index.ts', [services, next]);
+		assert.deepStrictEqual(matches.map((m) => [m.group.name, m.project.path]), [['next', '/repos/api-service-v2']]);
+	});
+});
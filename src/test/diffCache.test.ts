@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { DiffCache, DiffCacheKeyParts } from '../diffCache';
+import { DiffResult } from '../types';
+
+function keyParts(basePath: string, comparePath: string, baseMtimeMs = 1, compareMtimeMs = 2): DiffCacheKeyParts {
+	return {
+		basePath,
+		baseMtimeMs,
+		comparePath,
+		compareMtimeMs,
+		ignoreWhitespace: false,
+		structuredDiff: false,
+		normalization: 'none',
+		largeFileBytes: 0,
+		algorithm: 'myers',
+	};
+}
+
+function result(extra: Partial<DiffResult> = {}): DiffResult {
+	return {
+		projectName: 'b',
+		diffLineCount: 3,
+		diffDetail: { added: 2, removed: 1 },
+		compareFilePath: '/b/file',
+		fileExists: true,
+		compareWorkspaceFilePath: '/b',
+		contentHash: 'hb',
+		baseContentHash: 'ha',
+		...extra,
+	};
+}
+
+suite('Diff cache', () => {
+	test('hits only when paths, mtimes and options match', () => {
+		const cache = new DiffCache();
+		cache.set(keyParts('/a/file', '/b/file'), result());
+		assert.deepStrictEqual(cache.get(keyParts('/a/file', '/b/file'))?.diffDetail, { added: 2, removed: 1 });
+		assert.strictEqual(cache.get(keyParts('/a/file', '/b/file', 1, 3)), null);
+		assert.strictEqual(cache.get({ ...keyParts('/a/file', '/b/file'), ignoreWhitespace: true }), null);
+	});
+
+	test('inverts results found in the reverse direction', () => {
+		const cache = new DiffCache();
+		cache.set(keyParts('/a/file', '/b/file'), result());
+		const reversed = cache.get(keyParts('/b/file', '/a/file', 2, 1));
+		assert.ok(reversed);
+		assert.deepStrictEqual(reversed.diffDetail, { added: 1, removed: 2 });
+		assert.strictEqual(reversed.compareFilePath, '/a/file');
+		assert.strictEqual(reversed.contentHash, 'ha');
+		assert.strictEqual(reversed.baseContentHash, 'hb');
+	});
+
+	test('reversed binary results describe the cached base', () => {
+		const cache = new DiffCache();
+		cache.set(
+			keyParts('/a/logo.png', '/b/logo.png', 100, 200),
+			result({ diffLineCount: 1, diffDetail: { added: 0, removed: 0 }, binary: { size: 20, baseSize: 10, mtimeMs: 200, identical: false } })
+		);
+		assert.deepStrictEqual(cache.get(keyParts('/b/logo.png', '/a/logo.png', 200, 100))?.binary, {
+			size: 10,
+			baseSize: 20,
+			mtimeMs: 100,
+			identical: false,
+		});
+	});
+
+	test('evicts the least recently used entries and invalidates by key parts', () => {
+		const cache = new DiffCache(2);
+		cache.set(keyParts('/a/1', '/b/1'), result());
+		cache.set(keyParts('/a/2', '/b/2'), result());
+		assert.ok(cache.get(keyParts('/a/1', '/b/1')));
+		cache.set(keyParts('/a/3', '/b/3'), result());
+		assert.strictEqual(cache.get(keyParts('/a/2', '/b/2')), null);
+
+		assert.strictEqual(cache.invalidate((p) => p.basePath === '/a/3'), 1);
+		assert.strictEqual(cache.get(keyParts('/a/3', '/b/3')), null);
+		assert.ok(cache.get(keyParts('/a/1', '/b/1')));
+	});
+});
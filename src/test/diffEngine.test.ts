@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { computeBoundedDiffCounts, computeChangeStats, computeDiffCounts, invertChangeStats } from '../diffEngine';
+
+function lines(from: number, to: number): string {
+	const out: string[] = [];
+	for (let i = from; i < to; i++) {
+		out.push(`line ${i}`);
+	}
+	return out.join('\n') + '\n';
+}
+
+suite('Diff engine', () => {
+	test('computeDiffCounts counts added and removed lines', () => {
+		assert.deepStrictEqual(computeDiffCounts('a\nb\nc\n', 'a\nB\nc\nd\n', false), { added: 2, removed: 1 });
+		assert.deepStrictEqual(computeDiffCounts('a\r\nb\r\n', 'a\nb\n', false), { added: 0, removed: 0 });
+	});
+
+	test('computeDiffCounts can ignore whitespace', () => {
+		assert.deepStrictEqual(computeDiffCounts('a  b\n', ' a b \n', false), { added: 1, removed: 1 });
+		assert.deepStrictEqual(computeDiffCounts('a  b\n', ' a b \n', true), { added: 0, removed: 0 });
+	});
+
+	test('computeBoundedDiffCounts is exact within the budget', () => {
+		const base = lines(0, 300);
+		const compare = lines(150, 300) + lines(0, 150);
+		assert.deepStrictEqual(computeBoundedDiffCounts(base, compare, false), {
+			added: 150,
+			removed: 150,
+			approximate: false,
+		});
+	});
+
+	test('computeBoundedDiffCounts estimates the counts over the budget', () => {
+		// Reordered lines look unchanged to the order-insensitive estimate
+		const base = lines(0, 300);
+		const compare = lines(150, 300) + lines(0, 150) + 'extra\n';
+		assert.deepStrictEqual(computeBoundedDiffCounts(base, compare, false, '', undefined, 1), {
+			added: 1,
+			removed: 0,
+			approximate: true,
+		});
+	});
+
+	test('patience and histogram agree with Myers on simple edits', () => {
+		for (const algorithm of ['patience', 'histogram'] as const) {
+			assert.deepStrictEqual(
+				computeDiffCounts('a\nb\nc\nd\n', 'a\nB\nc\nd\ne\n', false, '', undefined, algorithm),
+				{ added: 2, removed: 1 },
+				algorithm
+			);
+			assert.deepStrictEqual(
+				computeDiffCounts('x\ny\nx\ny\n', 'y\nx\ny\nx\n', false, '', undefined, algorithm),
+				{ added: 1, removed: 1 },
+				algorithm
+			);
+		}
+	});
+
+	test('patience and histogram anchor on lines that occur once', () => {
+		// Myers keeps the repeated lines; the anchored algorithms keep the unique one instead
+		const base = 'unique\nx\nx\nx\n';
+		const compare = 'x\nx\nx\nunique\n';
+		assert.deepStrictEqual(computeDiffCounts(base, compare, false), { added: 1, removed: 1 });
+		for (const algorithm of ['patience', 'histogram'] as const) {
+			assert.deepStrictEqual(
+				computeDiffCounts(base, compare, false, '', undefined, algorithm),
+				{ added: 3, removed: 3 },
+				algorithm
+			);
+		}
+	});
+
+	test('Myers finds the fewest changes', () => {
+		const base = lines(0, 40) + lines(10, 20) + lines(50, 60);
+		const compare = lines(5, 45) + lines(50, 55) + lines(15, 25);
+		const myers = computeDiffCounts(base, compare, false);
+		for (const algorithm of ['patience', 'histogram'] as const) {
+			const { added, removed } = computeDiffCounts(base, compare, false, '', undefined, algorithm);
+			// Both sides keep the same number of matched lines
+			assert.strictEqual(60 - removed, 55 - added, algorithm);
+			assert.ok(added + removed >= myers.added + myers.removed, algorithm);
+		}
+	});
+
+	test('computeChangeStats counts changed words and characters', () => {
+		assert.deepStrictEqual(computeChangeStats('const a = 1;\nkeep\n', 'const b = 1;\nkeep\n', false), {
+			wordsAdded: 1,
+			wordsRemoved: 1,
+			charsAdded: 1,
+			charsRemoved: 1,
+			similarity: 94,
+			approximate: false,
+		});
+		assert.strictEqual(computeChangeStats('abc\n', 'xyz\n', false).similarity, 25);
+	});
+
+	test('computeChangeStats follows the whitespace setting', () => {
+		assert.strictEqual(computeChangeStats('hello world\n', 'hello   world\n', false).charsAdded, 2);
+		assert.deepStrictEqual(computeChangeStats('hello world\n', 'hello   world\n', true), {
+			wordsAdded: 0,
+			wordsRemoved: 0,
+			charsAdded: 0,
+			charsRemoved: 0,
+			similarity: 100,
+			approximate: false,
+		});
+	});
+
+	test('computeChangeStats treats empty files as identical', () => {
+		assert.strictEqual(computeChangeStats('', '', false).similarity, 100);
+		assert.strictEqual(computeChangeStats('', 'x', false).similarity, 0);
+	});
+
+	test('invertChangeStats swaps added and removed', () => {
+		const stats = computeChangeStats('one two\n', 'one three four\n', false);
+		assert.deepStrictEqual(invertChangeStats(stats), computeChangeStats('one three four\n', 'one two\n', false));
+	});
+});
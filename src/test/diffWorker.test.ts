@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createDiffWorkerPool } from '../compare';
+import { DiffResult, DiffTaskParams } from '../types';
+import { WorkerPool } from '../workerPool';
+
+suite('Diff worker', () => {
+	let dir: string;
+	let pool: WorkerPool<DiffTaskParams, DiffResult>;
+
+	suiteSetup(() => {
+		pool = createDiffWorkerPool(1);
+	});
+
+	suiteTeardown(async () => {
+		await pool.close();
+	});
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-worker-'));
+		fs.mkdirSync(path.join(dir, 'ref'));
+		fs.mkdirSync(path.join(dir, 'other'));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	// Writes the reference and target versions of `name` and compares them
+	function compare(name: string, reference: string | Buffer, target: string | Buffer, params: Partial<DiffTaskParams> = {}) {
+		fs.writeFileSync(path.join(dir, 'ref', name), reference);
+		fs.writeFileSync(path.join(dir, 'other', name), target);
+		return pool.run({
+			currentFilePath: path.join(dir, 'ref', name),
+			compareWorkspaceFilePath: path.join(dir, 'other'),
+			compareRelativeFilePath: name,
+			compareWorkspaceName: 'other',
+			ignoreWhiteSpace: false,
+			...params,
+		});
+	}
+
+	test('preloaded contents of both sides replace the files on disk', async () => {
+		const res = await compare('edited.txt', 'one\ntwo\n', 'one\ntwo\n', {
+			baseContent: 'one\ntwo\nthree\n',
+			compareContent: 'one\nTWO\n',
+		});
+		assert.deepStrictEqual(res.diffDetail, { added: 1, removed: 2 });
+		assert.ok(res.fileExists);
+	});
+
+	test('large files that are identical are answered by hash', async () => {
+		const text = 'same line\n'.repeat(200);
+		const res = await compare('big.txt', text, text, { largeFileBytes: 1000 });
+		assert.strictEqual(res.diffLineCount, 0);
+		assert.ok(res.contentHash);
+		assert.strictEqual(res.contentHash, res.baseContentHash);
+		assert.strictEqual(res.stats, undefined);
+	});
+
+	test('large files that differ get bounded line counts', async () => {
+		const text = 'same line\n'.repeat(200);
+		const res = await compare('big.txt', text, text + 'new line\n', { largeFileBytes: 1000 });
+		assert.deepStrictEqual(res.diffDetail, { added: 1, removed: 0 });
+		assert.strictEqual(res.algorithm, 'myers');
+		assert.notStrictEqual(res.contentHash, res.baseContentHash);
+	});
+
+	test('files below the threshold get a full comparison', async () => {
+		const res = await compare('small.txt', 'a\nb\n', 'a\nc\n', { largeFileBytes: 1000 });
+		assert.deepStrictEqual(res.diffDetail, { added: 1, removed: 1 });
+		assert.ok(res.stats);
+	});
+
+	test('binary files are compared by hash and size', async () => {
+		const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 1, 2, 3]);
+		const same = await compare('logo.png', png, png);
+		assert.strictEqual(same.diffLineCount, 0);
+		assert.strictEqual(same.binary?.identical, true);
+		assert.strictEqual(same.binary?.size, 8);
+		assert.strictEqual(same.binary?.baseSize, 8);
+
+		const changed = await compare('logo.png', png, Buffer.concat([png, png]));
+		assert.strictEqual(changed.diffLineCount, 1);
+		assert.strictEqual(changed.binary?.size, 16);
+		assert.strictEqual(changed.binary?.identical, false);
+		assert.ok(changed.binary?.mtimeMs);
+	});
+
+	test('files with NUL bytes are treated as binary whatever their extension', async () => {
+		const res = await compare('data.txt', Buffer.from([1, 0, 2]), Buffer.from([1, 0, 3]));
+		assert.strictEqual(res.binary?.identical, false);
+	});
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoveryWatchPatterns, expandPathVariables, resolveGroupProjects } from '../discovery';
+
+suite('Project discovery', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-discover-'));
+		for (const dir of [
+			'repos/api-service',
+			'repos/web-service',
+			'repos/docs',
+			'apps/one/packages/inner',
+			'apps/two',
+			'other/one',
+			'apps/node_modules/dep',
+		]) {
+			fs.mkdirSync(path.join(root, dir), { recursive: true });
+		}
+		for (const marker of ['apps/one', 'apps/one/packages/inner', 'other/one', 'apps/node_modules/dep']) {
+			fs.writeFileSync(path.join(root, marker, 'package.json'), '{}');
+		}
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('expandPathVariables expands home, environment and named variables', () => {
+		process.env.MPD_TEST_ROOT = '/work';
+		try {
+			assert.strictEqual(expandPathVariables('~/repos'), path.join(os.homedir(), 'repos'));
+			assert.strictEqual(expandPathVariables('${env:MPD_TEST_ROOT}/apps'), '/work/apps');
+			assert.strictEqual(expandPathVariables('${env:MPD_TEST_UNSET}/apps'), '/apps');
+			assert.strictEqual(expandPathVariables('${workspaceFolder}/a', { workspaceFolder: '/ws' }), '/ws/a');
+			assert.strictEqual(expandPathVariables('${unknown}/a'), '${unknown}/a');
+		} finally {
+			delete process.env.MPD_TEST_ROOT;
+		}
+	});
+
+	test('globs match project folders after the explicit ones', async () => {
+		const group = await resolveGroupProjects(
+			{
+				name: 'services',
+				ignoreWhiteSpace: false,
+				workspaces: [{ name: 'api', path: 'repos/api-service' }],
+				discover: ['repos/*-service'],
+			},
+			{ baseDir: root }
+		);
+		assert.deepStrictEqual(group.workspaces, [
+			{ name: 'api', path: path.join(root, 'repos', 'api-service') },
+			{ name: 'web-service', path: path.join(root, 'repos', 'web-service') },
+		]);
+	});
+
+	test('marker files select projects and nested projects are skipped', async () => {
+		const group = await resolveGroupProjects(
+			{
+				name: 'packages',
+				ignoreWhiteSpace: false,
+				workspaces: [],
+				discover: [
+					{ under: 'apps', containing: 'package.json' },
+					'apps/one/packages/*',
+					{ pattern: 'other/*' },
+				],
+			},
+			{ baseDir: root }
+		);
+		assert.deepStrictEqual(group.workspaces, [
+			{ name: 'one', path: path.join(root, 'apps', 'one') },
+			{ name: 'other/one', path: path.join(root, 'other', 'one') },
+		]);
+	});
+
+	test('discoveryWatchPatterns watches the matched folders or their markers', () => {
+		const patterns = discoveryWatchPatterns(
+			{
+				name: 'g',
+				ignoreWhiteSpace: false,
+				workspaces: [],
+				discover: ['repos/*-service', { under: 'apps', containing: 'package.json' }],
+			},
+			{ baseDir: root }
+		);
+		assert.deepStrictEqual(patterns, [
+			{ base: path.join(root, 'repos'), pattern: '*-service' },
+			{ base: path.join(root, 'apps'), pattern: '**/package.json' },
+		]);
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { DriftCounts, DriftDecorationProvider } from '../fileDecorations';
+
+// Resolves with the next batch of changed URIs
+function nextChange(provider: DriftDecorationProvider): Promise<vscode.Uri[] | vscode.Uri | undefined> {
+	return new Promise((resolve) => {
+		const sub = provider.onDidChangeFileDecorations((uris) => {
+			sub.dispose();
+			resolve(uris);
+		});
+	});
+}
+
+suite('Drift decorations', () => {
+	const uri = vscode.Uri.file('/projects/a/src/config.ts');
+
+	test('computes counts in the background and badges drifted files', async () => {
+		const computed: string[] = [];
+		const provider = new DriftDecorationProvider(async (fsPath): Promise<DriftCounts> => {
+			computed.push(fsPath);
+			return { groupName: 'apps', differs: 2, missing: 1, total: 4 };
+		}, () => true);
+		try {
+			const changed = nextChange(provider);
+			assert.strictEqual(provider.provideFileDecoration(uri), undefined);
+			const uris = await changed;
+			assert.deepStrictEqual((uris as vscode.Uri[]).map((u) => u.fsPath), [uri.fsPath]);
+
+			const decoration = provider.provideFileDecoration(uri);
+			assert.strictEqual(decoration?.badge, '3');
+			assert.strictEqual(decoration?.tooltip, 'apps: differs in 2, missing in 1 of 4 project(s)');
+			assert.deepStrictEqual(computed, [uri.fsPath]);
+		} finally {
+			provider.dispose();
+		}
+	});
+
+	test('leaves files without drift, and disabled or foreign URIs, alone', async () => {
+		let enabled = true;
+		const provider = new DriftDecorationProvider(
+			async (): Promise<DriftCounts> => ({ groupName: 'apps', differs: 0, missing: 0, total: 4 }),
+			() => enabled
+		);
+		try {
+			const changed = nextChange(provider);
+			provider.provideFileDecoration(uri);
+			await changed;
+			assert.strictEqual(provider.provideFileDecoration(uri), undefined);
+			assert.strictEqual(provider.provideFileDecoration(vscode.Uri.parse('untitled:Untitled-1')), undefined);
+			enabled = false;
+			assert.strictEqual(provider.provideFileDecoration(uri), undefined);
+		} finally {
+			provider.dispose();
+		}
+	});
+});
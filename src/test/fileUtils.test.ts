@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import md5 = require('md5');
+import { formatBytes, hashFile, isBinaryLike, isSameOrInside } from '../fileUtils';
+
+suite('File utilities', () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-files-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('isBinaryLike checks the extension, then the first bytes', () => {
+		const write = (name: string, data: string | Buffer) => {
+			const p = path.join(dir, name);
+			fs.writeFileSync(p, data);
+			return p;
+		};
+		assert.ok(isBinaryLike(write('image.PNG', 'text')));
+		assert.ok(isBinaryLike(write('nul.txt', Buffer.from([65, 0, 66]))));
+		assert.ok(isBinaryLike(write('noise.txt', Buffer.alloc(100, 0xff))));
+		assert.ok(!isBinaryLike(write('text.txt', 'plain text\n')));
+		assert.ok(!isBinaryLike(write('utf8.txt', 'héllo wörld, plain enough\n')));
+	});
+
+	test('hashFile matches the md5 of the text', async () => {
+		const p = path.join(dir, 'a.txt');
+		fs.writeFileSync(p, 'héllo\n');
+		assert.strictEqual(await hashFile(p), md5('héllo\n'));
+		await assert.rejects(hashFile(path.join(dir, 'missing.txt')));
+	});
+
+	test('formatBytes picks a readable unit', () => {
+		assert.strictEqual(formatBytes(512), '512 B');
+		assert.strictEqual(formatBytes(1536), '1.5 KB');
+		assert.strictEqual(formatBytes(20 * 1024 * 1024), '20 MB');
+	});
+
+	test('isSameOrInside compares whole path segments', () => {
+		assert.ok(isSameOrInside('/repos/api/src/a.ts', '/repos/api'));
+		assert.ok(isSameOrInside('/repos/api', '/repos/api/'));
+		assert.ok(!isSameOrInside('/repos/api-v2/src/a.ts', '/repos/api'));
+		assert.ok(!isSameOrInside('/repos', '/repos/api'));
+	});
+});
@@ -0,0 +1,40 @@
+import { parentPort } from 'worker_threads';
+
+// Worker for the WorkerPool tests: waits `delayMs` (cancellable) or blocks for `blockMs`,
+// then echoes `value`, or fails when `fail` is set
+export interface TestTask {
+	value: string;
+	delayMs?: number;
+	blockMs?: number;
+	fail?: boolean;
+}
+
+const timers = new Map<number, NodeJS.Timeout>();
+
+parentPort!.on('message', (msg: any) => {
+	if (msg?.type === 'cancel') {
+		const timer = timers.get(msg.id);
+		if (timer) {
+			clearTimeout(timer);
+			timers.delete(msg.id);
+			parentPort!.postMessage({ id: msg.id, cancelled: true });
+		}
+		return;
+	}
+	const { id, payload } = msg as { id: number; payload: TestTask };
+	const reply = () => {
+		timers.delete(id);
+		if (payload.fail) {
+			parentPort!.postMessage({ id, error: { message: `failed ${payload.value}` } });
+		} else {
+			parentPort!.postMessage({ id, result: payload.value });
+		}
+	};
+	if (payload.blockMs) {
+		const end = Date.now() + payload.blockMs;
+		while (Date.now() < end) {
+			// Busy wait, like a long synchronous diff
+		}
+	}
+	timers.set(id, setTimeout(reply, payload.delayMs ?? 0));
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { onlyInTargetResult } from '../compare';
+import { getFolderFileStatus, listFilesRecursive, summarizeFolderResult } from '../folderDiff';
+import { DiffResult } from '../types';
+
+function result(extra: Partial<DiffResult> = {}): DiffResult {
+	return {
+		projectName: 'b',
+		diffLineCount: 0,
+		diffDetail: { added: 0, removed: 0 },
+		compareFilePath: '/b/x.txt',
+		fileExists: true,
+		compareWorkspaceFilePath: '/b',
+		...extra,
+	};
+}
+
+suite('Folder comparison', () => {
+	let root: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-folder-'));
+		for (const rel of ['b.txt', 'a/z.txt', 'a/node_modules/dep.js', 'custom/skip.txt', '.git/HEAD']) {
+			fs.mkdirSync(path.join(root, path.dirname(rel)), { recursive: true });
+			fs.writeFileSync(path.join(root, rel), rel);
+		}
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	test('listFilesRecursive lists sorted relative paths and skips excluded folders', async () => {
+		assert.deepStrictEqual(await listFilesRecursive(root), [
+			path.join('a', 'z.txt'),
+			'b.txt',
+			path.join('custom', 'skip.txt'),
+		]);
+		assert.deepStrictEqual(await listFilesRecursive(root, ['custom']), [
+			path.join('.git', 'HEAD'),
+			path.join('a', 'node_modules', 'dep.js'),
+			path.join('a', 'z.txt'),
+			'b.txt',
+		]);
+	});
+
+	test('listFilesRecursive returns nothing for a missing folder or a file', async () => {
+		assert.deepStrictEqual(await listFilesRecursive(path.join(root, 'missing')), []);
+		assert.deepStrictEqual(await listFilesRecursive(path.join(root, 'b.txt')), []);
+	});
+
+	test('getFolderFileStatus puts errors first, then files only in the target', () => {
+		assert.strictEqual(getFolderFileStatus(result()), 'identical');
+		assert.strictEqual(getFolderFileStatus(result({ diffLineCount: 3 })), 'differs');
+		assert.strictEqual(getFolderFileStatus(result({ fileExists: false })), 'missing');
+		assert.strictEqual(getFolderFileStatus(result({ error: 'EACCES', fileExists: false })), 'error');
+		const onlyInTarget = onlyInTargetResult({ name: 'b', path: '/b' }, '/b/src', '/a/src', 'extra.txt');
+		assert.strictEqual(getFolderFileStatus(onlyInTarget), 'onlyInTarget');
+		assert.strictEqual(onlyInTarget.compareFilePath, path.join('/b/src', 'extra.txt'));
+		assert.strictEqual(onlyInTarget.baseFilePath, path.join('/a/src', 'extra.txt'));
+	});
+
+	test('summarizeFolderResult counts every status', () => {
+		const summary = summarizeFolderResult({
+			projectName: 'b',
+			compareWorkspaceFilePath: '/b',
+			compareFolderPath: '/b/src',
+			folderExists: true,
+			files: [
+				result(),
+				result({ diffLineCount: 1 }),
+				result({ diffLineCount: 2 }),
+				result({ fileExists: false }),
+				result({ onlyInTarget: true }),
+				result({ error: 'boom' }),
+			],
+		});
+		assert.deepStrictEqual(summary, { identical: 1, differs: 2, missing: 1, onlyInTarget: 1, error: 1 });
+	});
+});
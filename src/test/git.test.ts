@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getGitStatus, gitStatusFor, hasUncommittedChanges, listFilesAtRef, readFileAtRef, runGit } from '../git';
+
+// A repository with one commit: a.txt and sub/b.txt
+async function createRepo(): Promise<string> {
+	const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-git-'));
+	fs.mkdirSync(path.join(repo, 'sub'));
+	fs.writeFileSync(path.join(repo, 'a.txt'), 'committed\n');
+	fs.writeFileSync(path.join(repo, 'sub', 'b.txt'), 'b\n');
+	await runGit(repo, ['init', '-q', '-b', 'main']);
+	await runGit(repo, ['add', '-A']);
+	await runGit(repo, ['-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init']);
+	return repo;
+}
+
+suite('Git revisions', () => {
+	let repo: string;
+
+	suiteSetup(async () => {
+		repo = await createRepo();
+		fs.writeFileSync(path.join(repo, 'a.txt'), 'working tree\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	test('readFileAtRef reads the committed content', async () => {
+		assert.deepStrictEqual(await readFileAtRef(path.join(repo, 'a.txt'), 'HEAD'), {
+			status: 'ok',
+			content: 'committed\n',
+		});
+	});
+
+	test('readFileAtRef reports missing files and refs', async () => {
+		assert.deepStrictEqual(await readFileAtRef(path.join(repo, 'new.txt'), 'HEAD'), { status: 'missingFile' });
+		assert.deepStrictEqual(await readFileAtRef(path.join(repo, 'a.txt'), 'no-such-ref'), { status: 'missingRef' });
+	});
+
+	test('readFileAtRef reports paths outside a repository', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-nogit-'));
+		try {
+			const res = await readFileAtRef(path.join(dir, 'a.txt'), 'HEAD');
+			// The temp directory itself may live inside a repository on some machines
+			assert.ok(res.status === 'notRepo' || res.status === 'missingFile', res.status);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('listFilesAtRef lists files relative to the folder', async () => {
+		assert.deepStrictEqual(await listFilesAtRef(repo, 'HEAD'), ['a.txt', path.join('sub', 'b.txt')]);
+		assert.deepStrictEqual(await listFilesAtRef(path.join(repo, 'sub'), 'HEAD'), ['b.txt']);
+		assert.strictEqual(await listFilesAtRef(repo, 'no-such-ref'), null);
+	});
+});
+
+suite('Git status', () => {
+	let repo: string;
+
+	suiteSetup(async () => {
+		repo = await createRepo();
+		fs.writeFileSync(path.join(repo, 'a.txt'), 'modified\n');
+		fs.writeFileSync(path.join(repo, 'sub', 'b.txt'), 'staged\n');
+		await runGit(repo, ['add', path.join('sub', 'b.txt')]);
+		fs.writeFileSync(path.join(repo, 'sub', 'c.txt'), 'untracked\n');
+	});
+
+	suiteTeardown(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	test('getGitStatus reads the branch and the local changes', async () => {
+		const snapshot = await getGitStatus(repo);
+		assert.ok(snapshot);
+		assert.strictEqual(snapshot.branch, 'main');
+		assert.strictEqual(snapshot.hasUpstream, false);
+
+		const a = gitStatusFor(snapshot, path.join(repo, 'a.txt'));
+		assert.deepStrictEqual(a.fileStatus, { staged: false, modified: true, untracked: false, conflicted: false });
+		const b = gitStatusFor(snapshot, path.join(repo, 'sub', 'b.txt'));
+		assert.deepStrictEqual(b.fileStatus, { staged: true, modified: false, untracked: false, conflicted: false });
+		const c = gitStatusFor(snapshot, path.join(repo, 'sub', 'c.txt'));
+		assert.deepStrictEqual(c.fileStatus, { staged: false, modified: false, untracked: true, conflicted: false });
+	});
+
+	test('getGitStatus only lists changes below the target', async () => {
+		const snapshot = await getGitStatus(path.join(repo, 'sub', 'b.txt'));
+		assert.ok(snapshot);
+		assert.strictEqual(snapshot.files.size, 1);
+		assert.ok(hasUncommittedChanges(gitStatusFor(snapshot, path.join(repo, 'sub', 'b.txt')).fileStatus));
+		assert.ok(!hasUncommittedChanges(gitStatusFor(snapshot, path.join(repo, 'a.txt')).fileStatus));
+	});
+});
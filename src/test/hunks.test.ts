@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { addHunkEdits, computeHunks, describeHunk, findSameHunk } from '../hunks';
+
+suite('Hunks', () => {
+	const reference = 'a\nb\nc\nd\ne\n';
+	const target = 'a\nB\nc\nd\ne\nf\n';
+
+	test('computeHunks splits changes at unchanged lines', () => {
+		const hunks = computeHunks(reference, target);
+		assert.strictEqual(hunks.length, 2);
+		assert.deepStrictEqual(hunks[0], {
+			index: 0,
+			referenceStart: 1,
+			referenceLineCount: 1,
+			referenceText: 'b\n',
+			targetStart: 1,
+			targetLineCount: 1,
+			targetText: 'B\n',
+		});
+		assert.strictEqual(hunks[1].referenceStart, 5);
+		assert.strictEqual(hunks[1].referenceLineCount, 0);
+		assert.strictEqual(hunks[1].targetText, 'f\n');
+	});
+
+	test('computeHunks ignores line ending differences', () => {
+		assert.deepStrictEqual(computeHunks('a\r\nb\r\n', 'a\nb\n'), []);
+	});
+
+	test('describeHunk shows 1-based ranges and the first non-blank line', () => {
+		const [changed, added] = computeHunks(reference, target);
+		assert.deepStrictEqual(describeHunk(changed), { label: 'Reference 2 ↔ Target 2', preview: 'b' });
+		assert.deepStrictEqual(describeHunk(added), { label: 'Reference after 5 ↔ Target 6', preview: 'f' });
+	});
+
+	test('findSameHunk follows a hunk after the files were edited', () => {
+		const [, added] = computeHunks(reference, target);
+		const edited = computeHunks('x\n' + reference, 'x\n' + target);
+		assert.strictEqual(findSameHunk(edited, added), edited[1]);
+		assert.strictEqual(edited[1].referenceStart, 6);
+		assert.strictEqual(findSameHunk(computeHunks(reference, 'a\nB\nc\nd\ne\n'), added), undefined);
+	});
+
+	test('findSameHunk prefers the nearest of several identical hunks', () => {
+		const hunks = computeHunks('a\n1\n2\na\n3\n4\na\n', 'b\n1\n2\nb\n3\n4\nb\n');
+		assert.strictEqual(hunks.length, 3);
+		assert.strictEqual(findSameHunk(hunks, { ...hunks[1], referenceStart: 4 }), hunks[1]);
+		assert.strictEqual(findSameHunk(hunks, { ...hunks[0], referenceStart: 7 }), hunks[2]);
+	});
+
+	test('addHunkEdits pushes the reference side into the target', async () => {
+		const document = await vscode.workspace.openTextDocument({ content: target });
+		const hunks = computeHunks(reference, document.getText());
+		const edit = new vscode.WorkspaceEdit();
+		addHunkEdits(edit, document, [hunks[0]], 'push');
+		assert.ok(await vscode.workspace.applyEdit(edit));
+		assert.strictEqual(document.getText(), 'a\nb\nc\nd\ne\nf\n');
+	});
+
+	test('addHunkEdits pulls the target side into the reference', async () => {
+		const document = await vscode.workspace.openTextDocument({ content: reference });
+		const hunks = computeHunks(document.getText(), target);
+		const edit = new vscode.WorkspaceEdit();
+		addHunkEdits(edit, document, hunks, 'pull');
+		assert.ok(await vscode.workspace.applyEdit(edit));
+		assert.strictEqual(document.getText(), target);
+	});
+});
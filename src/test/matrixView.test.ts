@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { MatrixCell, SimilarityMatrix, renderSimilarityMatrix } from '../matrixView';
+
+function cell(diffLineCount: number, extra: Partial<MatrixCell> = {}): MatrixCell {
+	return { diffLineCount, added: diffLineCount, removed: 0, missing: false, ...extra };
+}
+
+suite('Similarity matrix', () => {
+	const matrix: SimilarityMatrix = {
+		groupName: 'apps',
+		relativePath: 'src/<config>.ts',
+		projects: ['a', 'b', 'c'],
+		cells: [
+			[null, cell(4, { similarity: 90 }), cell(1)],
+			[cell(4), null, cell(0, { missing: true })],
+			[cell(1, { binary: true }), cell(0, { missing: true }), null],
+		],
+	};
+
+	test('outlines the closest project in each row', () => {
+		const html = renderSimilarityMatrix(matrix, 'n0nce');
+		assert.ok(html.includes('<td class="cell closest" data-row="0" data-col="2"'));
+		assert.ok(html.includes('<td class="cell" data-row="0" data-col="1"'));
+		assert.ok(html.includes('<td class="cell closest" data-row="1" data-col="0"'));
+	});
+
+	test('renders missing, binary and self cells', () => {
+		const html = renderSimilarityMatrix(matrix, 'n0nce');
+		assert.ok(html.includes('<td class="missing" title="b → c: file missing">—</td>'));
+		assert.ok(html.includes('title="c → a: binary, differs"'));
+		assert.ok(html.includes('>≠</td>'));
+		assert.ok(html.includes('4<div class="sim">90%</div>'));
+		assert.strictEqual(html.match(/<td class="self"><\/td>/g)?.length, 3);
+	});
+
+	test('renders failed comparisons as errors and skips them for the closest project', () => {
+		const failed: SimilarityMatrix = {
+			...matrix,
+			cells: [
+				[null, cell(0, { error: 'Task timed out after 30000 ms' }), cell(3)],
+				[cell(4), null, cell(2)],
+				[cell(3), cell(2), null],
+			],
+		};
+		const html = renderSimilarityMatrix(failed, 'n0nce');
+		assert.ok(html.includes('<td class="error" title="a → b: could not be compared: Task timed out after 30000 ms">!</td>'));
+		assert.ok(html.includes('<td class="cell closest" data-row="0" data-col="2"'));
+	});
+
+	test('escapes names and only allows the nonce script', () => {
+		const html = renderSimilarityMatrix(matrix, 'n0nce');
+		assert.ok(html.includes('<h2>apps: src/&lt;config&gt;.ts</h2>'));
+		assert.ok(html.includes(`script-src 'nonce-n0nce'`));
+		assert.ok(html.includes('<script nonce="n0nce">'));
+	});
+});
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import {
+	DEFAULT_NORMALIZATION,
+	commentSyntaxFor,
+	normalizationKey,
+	normalizeLines,
+	patternError,
+	resolveNormalization,
+	stripComments,
+} from '../normalization';
+
+suite('Normalization', () => {
+	test('resolveNormalization merges the rules matching a file', () => {
+		const rules = [
+			{ ignoreBlankLines: true, ignorePatterns: ['^// generated'] },
+			{ files: '*.ts', ignoreComments: true, ignorePatterns: ['^// generated', '^import '] },
+			{ files: 'src/legacy/**', ignoreBlankLines: false },
+		];
+		assert.deepStrictEqual(resolveNormalization(rules, 'src/legacy/a.TS'), {
+			ignoreBlankLines: false,
+			ignoreCase: false,
+			ignoreComments: true,
+			ignorePatterns: ['^// generated', '^import '],
+		});
+		assert.deepStrictEqual(resolveNormalization(rules, 'README.md'), {
+			...DEFAULT_NORMALIZATION,
+			ignoreBlankLines: true,
+			ignorePatterns: ['^// generated'],
+		});
+	});
+
+	test('normalizationKey is stable for equal options', () => {
+		assert.strictEqual(normalizationKey(DEFAULT_NORMALIZATION), 'none');
+		const a = normalizationKey({ ...DEFAULT_NORMALIZATION, ignoreCase: true, ignorePatterns: ['x'] });
+		const b = normalizationKey({ ignorePatterns: ['x'], ignoreComments: false, ignoreCase: true, ignoreBlankLines: false });
+		assert.strictEqual(a, b);
+		assert.notStrictEqual(a, normalizationKey({ ...DEFAULT_NORMALIZATION, ignoreCase: true }));
+	});
+
+	test('stripComments keeps strings and line breaks', () => {
+		const syntax = commentSyntaxFor('a.ts')!;
+		assert.strictEqual(
+			stripComments('const a = "// not a comment"; // comment\n/* one\ntwo */b', syntax),
+			'const a = "// not a comment"; \n\nb'
+		);
+		assert.strictEqual(commentSyntaxFor('Dockerfile'), commentSyntaxFor('a.py'));
+		assert.strictEqual(commentSyntaxFor('a.unknown'), undefined);
+	});
+
+	test('normalizeLines drops comment-only lines and trailing comments', () => {
+		const options = { ...DEFAULT_NORMALIZATION, ignoreComments: true };
+		assert.deepStrictEqual(
+			normalizeLines('# header\nkey: value  # note\n\nother: 1', 'a.yaml', false, options),
+			['key: value', '', 'other: 1']
+		);
+	});
+
+	test('normalizeLines applies patterns, case, blank lines and whitespace', () => {
+		const options = {
+			ignoreBlankLines: true,
+			ignoreCase: true,
+			ignoreComments: false,
+			ignorePatterns: ['^Version:', '(invalid'],
+		};
+		assert.deepStrictEqual(
+			normalizeLines('Version: 2\nHello   World\n\n  \nEnd', 'a.txt', true, options),
+			['hello world', 'end']
+		);
+		assert.deepStrictEqual(normalizeLines('', 'a.txt', false), []);
+	});
+
+	test('patternError explains invalid regular expressions', () => {
+		assert.strictEqual(patternError('^Version:'), undefined);
+		assert.ok(patternError('(invalid')?.includes('Unterminated group'));
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { mapRelativePath, toProjectPath, toSharedPath } from '../pathMapping';
+
+suite('Path mappings', () => {
+	const app = { pathMappings: { shared: 'src/shared', 'shared/ui': 'src/ui' } };
+	const lib = { pathMappings: { shared: 'lib/common' } };
+
+	test('the longest matching prefix wins, on whole segments', () => {
+		assert.strictEqual(toProjectPath('shared/ui/button.ts', app), 'src/ui/button.ts');
+		assert.strictEqual(toProjectPath('shared/util.ts', app), 'src/shared/util.ts');
+		assert.strictEqual(toProjectPath('shared', app), 'src/shared');
+		assert.strictEqual(toProjectPath('shared-ui/x.ts', app), 'shared-ui/x.ts');
+		assert.strictEqual(toSharedPath('src/ui/button.ts', app), 'shared/ui/button.ts');
+		assert.strictEqual(toSharedPath('src/other.ts', app), 'src/other.ts');
+	});
+
+	test('an empty key maps the whole project into a subfolder', () => {
+		const nested = { pathMappings: { '': 'packages/app' } };
+		assert.strictEqual(toProjectPath('src/a.ts', nested), 'packages/app/src/a.ts');
+		assert.strictEqual(toSharedPath('packages/app/src/a.ts', nested), 'src/a.ts');
+		assert.strictEqual(toSharedPath('tools/build.ts', nested), 'tools/build.ts');
+	});
+
+	test('mapRelativePath translates between projects with different mappings', () => {
+		assert.strictEqual(mapRelativePath('src/shared/a.ts', app, lib), path.normalize('lib/common/a.ts'));
+		assert.strictEqual(mapRelativePath('lib/common/a.ts', lib, app), path.normalize('src/shared/a.ts'));
+		assert.strictEqual(mapRelativePath('src/shared/a.ts', app, undefined), path.normalize('shared/a.ts'));
+		assert.strictEqual(mapRelativePath('shared/a.ts', {}, lib), path.normalize('lib/common/a.ts'));
+		assert.strictEqual(mapRelativePath('README.md', app, lib), 'README.md');
+	});
+
+	test('leading ./, trailing slashes and backslashes are ignored', () => {
+		const messy = { pathMappings: { './shared/': 'src\\shared\\' } };
+		assert.strictEqual(toProjectPath('./shared/a.ts', messy), 'src/shared/a.ts');
+		assert.strictEqual(toSharedPath('src\\shared\\a.ts', messy), 'shared/a.ts');
+	});
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CachedDiff, PersistentDiffCache } from '../persistentDiffCache';
+
+function diff(added: number, removed: number): CachedDiff {
+	return { diffLineCount: added + removed, diffDetail: { added, removed } };
+}
+
+suite('Persistent diff cache', () => {
+	let dir: string;
+	let file: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-cache-'));
+		file = path.join(dir, 'cache.json');
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('looks up entries in both directions', () => {
+		const cache = new PersistentDiffCache(file);
+		cache.set('base', 'other', 'opts', {
+			...diff(2, 1),
+			structured: {
+				format: 'json',
+				added: 1,
+				removed: 0,
+				changed: 0,
+				changes: [{ path: 'a', kind: 'added', after: '1' }],
+				truncated: false,
+			},
+		});
+		assert.deepStrictEqual(cache.get('base', 'other', 'opts')?.diffDetail, { added: 2, removed: 1 });
+		const reversed = cache.get('other', 'base', 'opts');
+		assert.deepStrictEqual(reversed?.diffDetail, { added: 1, removed: 2 });
+		assert.deepStrictEqual(reversed?.structured?.changes, [{ path: 'a', kind: 'removed', before: '1', after: undefined }]);
+		assert.strictEqual(cache.get('base', 'other', 'other-opts'), null);
+	});
+
+	test('evicts the least recently used entries', () => {
+		const cache = new PersistentDiffCache(file, 1024 * 1024, 2);
+		cache.set('a', 'x', 'opts', diff(1, 0));
+		cache.set('b', 'x', 'opts', diff(2, 0));
+		assert.ok(cache.get('a', 'x', 'opts'));
+		cache.set('c', 'x', 'opts', diff(3, 0));
+		assert.strictEqual(cache.size, 2);
+		assert.ok(cache.get('a', 'x', 'opts'));
+		assert.strictEqual(cache.get('b', 'x', 'opts'), null);
+
+		cache.setLimits(1);
+		assert.strictEqual(cache.size, 0);
+	});
+
+	test('survives a reload and keeps entries added while loading', async () => {
+		const first = new PersistentDiffCache(file);
+		first.set('a', 'x', 'opts', diff(1, 0));
+		first.set('b', 'x', 'opts', diff(2, 0));
+		await first.flush();
+
+		const second = new PersistentDiffCache(file);
+		second.set('a', 'x', 'opts', diff(5, 5));
+		await second.load();
+		assert.strictEqual(second.size, 2);
+		assert.deepStrictEqual(second.get('a', 'x', 'opts')?.diffDetail, { added: 5, removed: 5 });
+		assert.deepStrictEqual(second.get('b', 'x', 'opts')?.diffDetail, { added: 2, removed: 0 });
+	});
+
+	test('skips invalid entries and ignores corrupt files', async () => {
+		fs.writeFileSync(file, JSON.stringify({
+			version: 2,
+			entries: [
+				['opts|a|x', diff(1, 0)],
+				['opts|b|x', { diffLineCount: 1 }],
+				['opts|c|x', { ...diff(1, 0), structured: { changes: 'no' } }],
+				'not an entry',
+			],
+		}));
+		const cache = new PersistentDiffCache(file);
+		await cache.load();
+		assert.strictEqual(cache.size, 1);
+		assert.ok(cache.get('a', 'x', 'opts'));
+
+		fs.writeFileSync(file, '{ truncated');
+		const corrupt = new PersistentDiffCache(file);
+		await corrupt.load();
+		assert.strictEqual(corrupt.size, 0);
+	});
+
+	test('clear removes the cache file', async () => {
+		const cache = new PersistentDiffCache(file);
+		cache.set('a', 'x', 'opts', diff(1, 0));
+		await cache.flush();
+		assert.ok(fs.existsSync(file));
+		await cache.clear();
+		assert.strictEqual(cache.size, 0);
+		assert.ok(!fs.existsSync(file));
+	});
+});
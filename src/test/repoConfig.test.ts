@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { REPO_CONFIG_FILE, loadRepoConfig, mergeDiffGroups } from '../repoConfig';
+
+suite('Repository config', () => {
+	let root: string;
+	let configPath: string;
+
+	setup(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-config-'));
+		configPath = path.join(root, REPO_CONFIG_FILE);
+		for (const dir of ['a', 'b', 'a/nested']) {
+			fs.mkdirSync(path.join(root, dir), { recursive: true });
+		}
+	});
+
+	teardown(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	const writeAndLoad = async (config: unknown) => {
+		fs.writeFileSync(configPath, typeof config === 'string' ? config : JSON.stringify(config, null, 2));
+		const loaded = await loadRepoConfig(configPath);
+		assert.ok(loaded);
+		return loaded;
+	};
+
+	test('resolves workspace paths against the config folder', async () => {
+		const config = await writeAndLoad({
+			diffGroups: [{ name: 'apps', workspaces: [{ name: 'a', path: 'a' }, { name: 'b', path: './b' }] }],
+		});
+		assert.deepStrictEqual(config.problems, []);
+		assert.deepStrictEqual(config.groups[0].workspaces, [
+			{ name: 'a', path: path.join(root, 'a') },
+			{ name: 'b', path: path.join(root, 'b') },
+		]);
+	});
+
+	test('drops invalid groups and workspaces with located errors', async () => {
+		const config = await writeAndLoad([
+			'{',
+			'  "diffGroups": [',
+			'    { "workspaces": [] },',
+			'    { "name": "apps", "workspaces": [{ "name": "a", "path": "a" }, { "name": "broken" }] },',
+			'    { "name": "apps", "workspaces": [] },',
+			'    { "name": "empty" }',
+			'  ]',
+			'}',
+		].join('\n'));
+		assert.deepStrictEqual(config.groups.map((g) => g.name), ['apps']);
+		assert.deepStrictEqual(config.groups[0].workspaces.map((ws) => ws.name), ['a']);
+		assert.deepStrictEqual(
+			config.problems.map((p) => [p.severity, p.message, p.start.line]),
+			[
+				['error', 'A diff group needs a name', 2],
+				['error', 'A workspace needs a name and a path', 3],
+				['error', 'Duplicate group name "apps"; only the first group is used', 4],
+				['error', 'Group "empty" needs a "workspaces" or "discover" array', 5],
+			]
+		);
+	});
+
+	test('warns about missing and overlapping folders but keeps them', async () => {
+		const config = await writeAndLoad({
+			diffGroups: [{
+				name: 'apps',
+				workspaces: [
+					{ name: 'a', path: 'a' },
+					{ name: 'nested', path: 'a/nested' },
+					{ name: 'gone', path: 'gone' },
+				],
+			}],
+		});
+		assert.strictEqual(config.groups[0].workspaces.length, 3);
+		assert.deepStrictEqual(
+			config.problems.map((p) => [p.severity, p.message]),
+			[
+				['warning', 'Overlaps workspace "a"; files in both folders are matched to the first one listed'],
+				['warning', `${path.join(root, 'gone')} does not exist`],
+			]
+		);
+	});
+
+	test('reports invalid ignore patterns where they are written', async () => {
+		const config = await writeAndLoad([
+			'{',
+			'  "diffGroups": [{',
+			'    "name": "apps",',
+			'    "workspaces": [{ "name": "a", "path": "a" }],',
+			'    "normalization": [{ "ignorePatterns": ["^// generated", "(unclosed"] }]',
+			'  }]',
+			'}',
+		].join('\n'));
+		assert.strictEqual(config.groups.length, 1);
+		assert.deepStrictEqual(config.problems.map((p) => [p.severity, p.start.line, p.start.character]), [
+			['error', 4, 60],
+		]);
+		assert.ok(config.problems[0].message.startsWith('Invalid ignore pattern; it is not applied:'));
+	});
+
+	test('reports invalid JSON and a missing diffGroups array', async () => {
+		const config = await writeAndLoad('{ "diffGroups": [ }');
+		assert.ok(config.problems.some((p) => p.message.startsWith('Invalid JSON')));
+		assert.deepStrictEqual((await writeAndLoad({})).problems.map((p) => p.message), ['Expected a "diffGroups" array']);
+		assert.strictEqual(await loadRepoConfig(path.join(root, 'missing.json')), null);
+	});
+
+	test('mergeDiffGroups lets settings override repository groups', async () => {
+		const config = await writeAndLoad({
+			diffGroups: [
+				{ name: 'shared', workspaces: [{ name: 'a', path: 'a' }] },
+				{ name: 'repo-only', workspaces: [{ name: 'b', path: 'b' }] },
+			],
+		});
+		const settingsGroup = { name: 'shared', ignoreWhiteSpace: true, workspaces: [] };
+		const { groups, problems } = mergeDiffGroups([settingsGroup], [config, config]);
+		assert.deepStrictEqual(groups.map((g) => g.name), ['shared', 'repo-only']);
+		assert.strictEqual(groups[0], settingsGroup);
+		assert.deepStrictEqual(problems.map((p) => p.message), [
+			'Group "shared" is overridden by the group of the same name in user settings',
+			'Group "shared" is overridden by the group of the same name in user settings',
+			`Group "repo-only" is also defined in ${configPath}, which takes precedence`,
+		]);
+	});
+});
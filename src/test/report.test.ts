@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildReport, renderHtml, renderJson, renderMarkdown, renderText } from '../report';
+import { DiffResult } from '../types';
+
+function result(projectName: string, extra: Partial<DiffResult> = {}): DiffResult {
+	return {
+		projectName,
+		diffLineCount: 0,
+		diffDetail: { added: 0, removed: 0 },
+		compareFilePath: `/${projectName}/config.txt`,
+		fileExists: true,
+		compareWorkspaceFilePath: `/${projectName}`,
+		...extra,
+	};
+}
+
+suite('Drift report', () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mpd-report-'));
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test('file mode lists one row per project, sorted by code unit', async () => {
+		const report = await buildReport({
+			mode: 'file',
+			groupName: 'apps',
+			referenceProject: 'ref',
+			referencePath: '/ref/config.txt',
+			results: [
+				result('beta', {
+					diffLineCount: 3,
+					diffDetail: { added: 2, removed: 1 },
+					stats: { wordsAdded: 2, wordsRemoved: 1, charsAdded: 9, charsRemoved: 4, similarity: 80, approximate: false },
+				}),
+				result('Zulu'),
+				result('alpha', { fileExists: false }),
+				result('gamma', { error: 'EACCES: permission denied' }),
+			],
+			includeDiffs: false,
+		});
+		assert.deepStrictEqual(report.projects.map((p) => p.name), ['Zulu', 'alpha', 'beta', 'gamma']);
+		assert.deepStrictEqual(report.summary, { identical: 1, differs: 1, missing: 1, onlyInTarget: 0, error: 1 });
+		assert.deepStrictEqual(report.projects[2].files, [
+			{ path: 'config.txt', status: 'differs', lines: { added: 2, removed: 1 }, similarity: 80 },
+		]);
+		assert.deepStrictEqual(report.projects[3].files, [
+			{ path: 'config.txt', status: 'error', error: 'EACCES: permission denied' },
+		]);
+	});
+
+	test('folder mode reports missing folders and includes unified diffs', async () => {
+		fs.mkdirSync(path.join(dir, 'ref'));
+		fs.mkdirSync(path.join(dir, 'other'));
+		fs.writeFileSync(path.join(dir, 'ref', 'a.txt'), 'one\ntwo\n');
+		fs.writeFileSync(path.join(dir, 'other', 'a.txt'), 'one\nTWO\n');
+		const changed = result('other', {
+			diffLineCount: 2,
+			diffDetail: { added: 1, removed: 1 },
+			compareFilePath: path.join(dir, 'other', 'a.txt'),
+			baseFilePath: path.join(dir, 'ref', 'a.txt'),
+			relativePath: 'a.txt',
+		});
+		const report = await buildReport({
+			mode: 'folder',
+			groupName: 'apps',
+			referenceProject: 'ref',
+			referencePath: path.join(dir, 'ref'),
+			results: [],
+			folderResults: [
+				{
+					projectName: 'other',
+					compareWorkspaceFilePath: dir,
+					compareFolderPath: path.join(dir, 'other'),
+					folderExists: true,
+					files: [changed],
+				},
+				{
+					projectName: 'gone',
+					compareWorkspaceFilePath: dir,
+					compareFolderPath: path.join(dir, 'gone'),
+					folderExists: false,
+					files: [result('gone', { fileExists: false, relativePath: 'a.txt' })],
+				},
+			],
+			includeDiffs: true,
+		});
+		assert.strictEqual(report.projects[0].name, 'gone');
+		assert.ok(report.projects[0].folderMissing);
+		const diff = report.projects[1].files[0].diff;
+		assert.ok(diff?.includes('-two\n+TWO'), diff);
+		assert.ok(renderMarkdown(report).includes('| gone | | Folder missing | | |'));
+		assert.ok(renderMarkdown(report).includes('```diff'));
+	});
+
+	test('renderers escape project names and stay stable', async () => {
+		const report = await buildReport({
+			mode: 'file',
+			groupName: 'a<b>',
+			referenceProject: 'ref',
+			referencePath: '/ref/config.txt',
+			results: [result('x|y', { diffLineCount: 1, diffDetail: { added: 1, removed: 0 } })],
+			includeDiffs: false,
+		});
+		const at = new Date(0);
+		assert.ok(renderMarkdown(report, at).includes('| x\\|y | config.txt | Differs | +1 -0 |'));
+		assert.ok(renderHtml(report, at).includes('<dd>a&lt;b&gt;</dd>'));
+		assert.ok(renderText(report).includes('Group a<b>, reference ref: 1 differs'));
+		assert.strictEqual(renderJson(report), renderJson(JSON.parse(renderJson(report))));
+		assert.ok(!renderJson(report).includes('Generated'));
+	});
+});
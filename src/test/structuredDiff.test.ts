@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { diffStructured, invertStructuredDiff, parseStructured, structuredFormatFor } from '../structuredDiff';
+
+suite('Structured diff', () => {
+	test('structuredFormatFor recognizes JSON and YAML extensions', () => {
+		assert.strictEqual(structuredFormatFor('/p/package.json'), 'json');
+		assert.strictEqual(structuredFormatFor('/p/tsconfig.JSONC'), 'json');
+		assert.strictEqual(structuredFormatFor('/p/ci.yml'), 'yaml');
+		assert.strictEqual(structuredFormatFor('/p/readme.md'), null);
+	});
+
+	test('parseStructured accepts comments and trailing commas in JSON', () => {
+		assert.deepStrictEqual(parseStructured('{ // note\n "a": [1, 2,], }', 'json'), { a: [1, 2] });
+		assert.deepStrictEqual(parseStructured('a:\n  - 1\n', 'yaml'), { a: [1] });
+		assert.throws(() => parseStructured('{ "a": ', 'json'));
+	});
+
+	test('diffStructured ignores key order and reports key paths', () => {
+		const base = { name: 'x', version: '1.0.0', scripts: { build: 'tsc' }, files: ['a', 'b'] };
+		const compare = { version: '1.1.0', name: 'x', scripts: { build: 'tsc', 'test:unit': 'mocha' }, files: ['a'] };
+		const diff = diffStructured(base, compare, 'json');
+		assert.deepStrictEqual(
+			{ added: diff.added, removed: diff.removed, changed: diff.changed, truncated: diff.truncated },
+			{ added: 1, removed: 1, changed: 1, truncated: false }
+		);
+		assert.deepStrictEqual(diff.changes, [
+			{ path: 'version', kind: 'changed', before: '"1.0.0"', after: '"1.1.0"' },
+			{ path: 'scripts["test:unit"]', kind: 'added', after: '"mocha"' },
+			{ path: 'files[1]', kind: 'removed', before: '"b"' },
+		]);
+	});
+
+	test('diffStructured finds no changes between equal documents', () => {
+		const diff = diffStructured({ a: { b: [1, { c: null }] } }, { a: { b: [1, { c: null }] } }, 'yaml');
+		assert.strictEqual(diff.changes.length, 0);
+	});
+
+	test('diffStructured caps the reported changes', () => {
+		const compare: Record<string, number> = {};
+		for (let i = 0; i < 600; i++) {
+			compare[`k${i}`] = i;
+		}
+		const diff = diffStructured({}, compare, 'json');
+		assert.strictEqual(diff.added, 600);
+		assert.strictEqual(diff.changes.length, 500);
+		assert.ok(diff.truncated);
+	});
+
+	test('invertStructuredDiff swaps the sides', () => {
+		const diff = diffStructured({ a: 1, b: 2 }, { a: 3, c: 4 }, 'json');
+		const inverted = invertStructuredDiff(diff);
+		assert.strictEqual(inverted.added, diff.removed);
+		assert.strictEqual(inverted.removed, diff.added);
+		assert.deepStrictEqual(inverted.changes, [
+			{ path: 'a', kind: 'changed', before: '3', after: '1' },
+			{ path: 'b', kind: 'added', before: undefined, after: '2' },
+			{ path: 'c', kind: 'removed', before: '4', after: undefined },
+		]);
+	});
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { DiffResult } from '../types';
+import { clusterByContent } from '../versionClusters';
+
+function result(projectName: string, contentHash: string | undefined, fileExists = true): DiffResult {
+	return {
+		projectName,
+		diffLineCount: 0,
+		diffDetail: { added: 0, removed: 0 },
+		compareFilePath: `/${projectName}/file.txt`,
+		fileExists,
+		compareWorkspaceFilePath: `/${projectName}`,
+		contentHash,
+	};
+}
+
+suite('Version clusters', () => {
+	test('groups results by content and orders clusters by size', () => {
+		const clusters = clusterByContent(
+			[result('a', 'x'), result('b', 'y'), result('c', 'y'), result('d', 'z')],
+			'x'
+		);
+		assert.deepStrictEqual(
+			clusters.map((c) => [c.name, c.contentHash, c.results.map((r) => r.projectName)]),
+			[
+				// The reference counts towards its own cluster, so x ties with y and keeps insertion order
+				['A', 'x', ['a']],
+				['B', 'y', ['b', 'c']],
+				['C', 'z', ['d']],
+			]
+		);
+		assert.ok(clusters[0].includesReference);
+		assert.ok(!clusters.some((c) => c.isMajority));
+	});
+
+	test('marks a strictly largest cluster as the majority', () => {
+		const clusters = clusterByContent(
+			[result('a', 'y'), result('b', 'y'), result('c', 'y'), result('d', 'x')],
+			'x'
+		);
+		assert.strictEqual(clusters[0].contentHash, 'y');
+		assert.ok(clusters[0].isMajority);
+		assert.ok(!clusters[1].isMajority);
+	});
+
+	test('leaves out missing files and keeps the reference cluster when alone', () => {
+		const clusters = clusterByContent([result('a', undefined, false), result('b', undefined)], 'x');
+		assert.strictEqual(clusters.length, 1);
+		assert.deepStrictEqual(clusters[0].results, []);
+		assert.ok(clusters[0].includesReference);
+		assert.ok(!clusters[0].isMajority);
+	});
+
+	test('names clusters past Z with two letters', () => {
+		const results = Array.from({ length: 28 }, (_, i) => result(`p${i}`, `h${i}`));
+		assert.deepStrictEqual(
+			clusterByContent(results).slice(25).map((c) => c.name),
+			['Z', 'AA', 'AB']
+		);
+	});
+});
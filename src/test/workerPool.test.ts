@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { TaskCancelledError, TaskTimeoutError, WorkerPool } from '../workerPool';
+import { TestTask } from './fixtures/testWorker';
+
+const WORKER_PATH = path.join(__dirname, 'fixtures', 'testWorker.js');
+
+suite('Worker pool', () => {
+	let pool: WorkerPool<TestTask, string>;
+
+	teardown(async () => {
+		await pool?.close();
+	});
+
+	test('runs tasks and reports worker errors', async () => {
+		pool = new WorkerPool(WORKER_PATH, 2);
+		assert.deepStrictEqual(
+			await Promise.all([pool.run({ value: 'a' }), pool.run({ value: 'b' })]),
+			['a', 'b']
+		);
+		await assert.rejects(pool.run({ value: 'c', fail: true }), { message: 'failed c' });
+	});
+
+	test('dequeues higher priorities first, then in submission order', async () => {
+		pool = new WorkerPool(WORKER_PATH, 1);
+		const order: string[] = [];
+		const run = (value: string, priority: number) =>
+			pool.run({ value }, { priority }).then((v) => {
+				order.push(v);
+			});
+		const blocker = pool.run({ value: 'blocker', delayMs: 50 });
+		await Promise.all([blocker, run('low', 1), run('high-1', 5), run('mid', 3), run('high-2', 5)]);
+		assert.deepStrictEqual(order, ['high-1', 'high-2', 'mid', 'low']);
+	});
+
+	test('cancels queued and running tasks', async () => {
+		pool = new WorkerPool(WORKER_PATH, 1);
+		const abort = new AbortController();
+		const running = pool.run({ value: 'running', delayMs: 10_000 }, { signal: abort.signal });
+		const queued = pool.run({ value: 'queued' }, { signal: abort.signal });
+		const other = pool.run({ value: 'other' });
+		const cancelled = Promise.all([
+			assert.rejects(running, TaskCancelledError),
+			assert.rejects(queued, TaskCancelledError),
+		]);
+		abort.abort();
+		await cancelled;
+		// The worker is free again once it acknowledged the cancellation
+		assert.strictEqual(await other, 'other');
+		await assert.rejects(pool.run({ value: 'late' }, { signal: abort.signal }), TaskCancelledError);
+	});
+
+	test('times out a blocked worker and replaces it', async () => {
+		pool = new WorkerPool(WORKER_PATH, 1);
+		await assert.rejects(pool.run({ value: 'slow', blockMs: 2_000 }, { timeoutMs: 100 }), TaskTimeoutError);
+		assert.strictEqual(await pool.run({ value: 'next' }, { timeoutMs: 5_000 }), 'next');
+	});
+
+	test('rejects pending tasks when closed', async () => {
+		pool = new WorkerPool(WORKER_PATH, 1);
+		const running = pool.run({ value: 'running', delayMs: 10_000 });
+		const queued = pool.run({ value: 'queued' });
+		const closed = Promise.all([assert.rejects(running, /closed/), assert.rejects(queued, /closed/)]);
+		await pool.close();
+		await closed;
+		await assert.rejects(pool.run({ value: 'after' }), /closed/);
+	});
+});
@@ -1,8 +1,50 @@
+import { NormalizationOptions } from "./normalization";
+
 export interface DiffCounts {
   added: number;
   removed: number;
 }
 
+export type DiffAlgorithm = "myers" | "patience" | "histogram";
+
+export interface ChangeStats {
+  wordsAdded: number;
+  wordsRemoved: number;
+  charsAdded: number;
+  charsRemoved: number;
+  // Share of characters the two files have in common, 0-100
+  similarity: number;
+  // Word or character counts were estimated because the exact diff was too expensive
+  approximate: boolean;
+}
+
+export interface BinaryFileInfo {
+  // Size of the target in bytes
+  size: number;
+  // Last modification of the target; unknown when it was read from a git revision
+  mtimeMs?: number;
+  // Size of the reference in bytes
+  baseSize: number;
+  identical: boolean;
+}
+
+// Parameters of one comparison run by diffWorker
+export interface DiffTaskParams {
+  currentFilePath: string;
+  compareWorkspaceFilePath: string;
+  compareRelativeFilePath: string;
+  compareWorkspaceName: string;
+  ignoreWhiteSpace: boolean;
+  baseContent?: string; // optional preloaded content of currentFilePath to avoid repeated reads
+  compareContent?: string; // optional content of the target, e.g. an unsaved editor, instead of reading it
+  compareRef?: string; // compare against this git revision of the target instead of its working tree
+  baseContentHash?: string; // optional precomputed md5 of baseContent
+  structuredDiff?: boolean; // key-level comparison for JSON/YAML files
+  normalization?: NormalizationOptions; // rules resolved for this file from the group settings
+  largeFileBytes?: number; // files above this size use large-file mode; 0 or unset disables it
+  algorithm?: DiffAlgorithm; // line diff algorithm; Myers when unset
+}
+
 export interface DiffResult {
   projectName: string;
   diffLineCount: number;
@@ -10,4 +52,78 @@ export interface DiffResult {
   compareFilePath: string;
   fileExists: boolean;
   compareWorkspaceFilePath: string;
+  // Folder mode: the reference file this result was compared against
+  baseFilePath?: string;
+  // Folder mode: path of the file relative to the compared folder
+  relativePath?: string;
+  // Folder mode: file exists in the target folder but not in the reference folder
+  onlyInTarget?: boolean;
+  // Git revision the target was read from, when comparing against a ref
+  compareRef?: string;
+  // Set when the ref could not be used and the working tree was compared instead
+  compareRefFallback?: "notRepo" | "missingRef";
+  // Git state of the target project, when available
+  git?: GitStatusInfo;
+  // md5 of the compared (target) and base contents, when both files were read
+  contentHash?: string;
+  baseContentHash?: string;
+  // Key-level comparison for JSON/YAML files, when enabled for the group
+  structured?: StructuredDiff;
+  // Word- and character-level changes, for line-based comparisons of existing files
+  stats?: ChangeStats;
+  // Hash-based comparison of a binary file, in place of line counts
+  binary?: BinaryFileInfo;
+  // Algorithm that produced line counts (not set for structured or missing files)
+  algorithm?: DiffAlgorithm;
+  // Large file whose exact diff was too expensive; the counts are an estimate
+  approximate?: boolean;
+  // The comparison failed, e.g. the target could not be read; the counts are zeros
+  error?: string;
+}
+
+export type StructuredFormat = "json" | "yaml";
+
+export interface KeyChange {
+  // e.g. "dependencies.react" or "scripts[\"build:prod\"]"
+  path: string;
+  kind: "added" | "removed" | "changed";
+  // JSON previews of the reference (before) and target (after) values
+  before?: string;
+  after?: string;
+}
+
+export interface StructuredDiff {
+  format: StructuredFormat;
+  added: number;
+  removed: number;
+  changed: number;
+  changes: KeyChange[];
+  // More changes exist than are listed in `changes`
+  truncated: boolean;
+}
+
+export interface GitFileStatus {
+  staged: boolean;
+  modified: boolean;
+  untracked: boolean;
+  conflicted: boolean;
+}
+
+export interface GitStatusInfo {
+  // null when HEAD is detached
+  branch: string | null;
+  hasUpstream: boolean;
+  ahead: number;
+  behind: number;
+  // Status of the compared file; undefined when it has no local changes
+  fileStatus?: GitFileStatus;
+}
+
+export interface FolderProjectResult {
+  projectName: string;
+  compareWorkspaceFilePath: string;
+  compareFolderPath: string;
+  folderExists: boolean;
+  files: DiffResult[];
+  git?: GitStatusInfo;
 }
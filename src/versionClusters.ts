@@ -0,0 +1,62 @@
+import { DiffResult } from "./types";
+
+export interface VersionCluster {
+	// "A", "B", ... in order of decreasing size
+	name: string;
+	contentHash: string;
+	results: DiffResult[];
+	// The reference file has this content
+	includesReference: boolean;
+	// Strictly the largest cluster, counting the reference project
+	isMajority: boolean;
+}
+
+function clusterName(index: number): string {
+	let name = "";
+	let n = index;
+	do {
+		name = String.fromCharCode(65 + (n % 26)) + name;
+		n = Math.floor(n / 26) - 1;
+	} while (n >= 0);
+	return name;
+}
+
+/**
+ * Groups existing files by content hash. Results without a hash (missing files) are left out.
+ */
+export function clusterByContent(
+	results: DiffResult[],
+	referenceContentHash?: string
+): VersionCluster[] {
+	const byHash = new Map<string, DiffResult[]>();
+	if (referenceContentHash) {
+		byHash.set(referenceContentHash, []);
+	}
+	for (const res of results) {
+		if (!res.fileExists || !res.contentHash) {
+			continue;
+		}
+		const members = byHash.get(res.contentHash);
+		if (members) {
+			members.push(res);
+		} else {
+			byHash.set(res.contentHash, [res]);
+		}
+	}
+
+	const sizeOf = (hash: string, members: DiffResult[]) =>
+		members.length + (hash === referenceContentHash ? 1 : 0);
+	const entries = [...byHash.entries()].sort(
+		([ha, a], [hb, b]) => sizeOf(hb, b) - sizeOf(ha, a)
+	);
+	const largest = entries.length > 0 ? sizeOf(entries[0][0], entries[0][1]) : 0;
+	const runnerUp = entries.length > 1 ? sizeOf(entries[1][0], entries[1][1]) : 0;
+
+	return entries.map(([hash, members], idx) => ({
+		name: clusterName(idx),
+		contentHash: hash,
+		results: members,
+		includesReference: hash === referenceContentHash,
+		isMajority: idx === 0 && largest > runnerUp && entries.length > 1,
+	}));
+}
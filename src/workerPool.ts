@@ -4,14 +4,121 @@ import * as os from "os";
 export interface WorkerTask<TIn, TOut> {
   id: number;
   payload: TIn;
+  priority: number;
+  timeoutMs?: number;
   resolve: (value: TOut) => void;
   reject: (reason?: any) => void;
+  // Set once the task has been resolved or rejected
+  settled: boolean;
+  cleanup?: () => void;
 }
 
+export interface RunOptions {
+  // Aborting drops a queued task, or asks the worker to stop a running one
+  signal?: AbortSignal;
+  // A task running longer than this is failed and its worker replaced
+  timeoutMs?: number;
+  // Higher priorities are dequeued first; equal priorities run in submission order
+  priority?: number;
+}
+
+export class TaskCancelledError extends Error {
+  constructor() {
+    super("Task was cancelled");
+    this.name = "TaskCancelledError";
+  }
+}
+
+export class TaskTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Task timed out after ${timeoutMs} ms`);
+    this.name = "TaskTimeoutError";
+  }
+}
+
+interface InflightTask<TIn, TOut> {
+  task: WorkerTask<TIn, TOut>;
+  worker: Worker;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Binary max-heap of pending tasks ordered by priority, then by submission order.
+ */
+class TaskHeap<TIn, TOut> {
+  private items: Array<WorkerTask<TIn, TOut>> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  private before(a: WorkerTask<TIn, TOut>, b: WorkerTask<TIn, TOut>): boolean {
+    return a.priority !== b.priority ? a.priority > b.priority : a.id < b.id;
+  }
+
+  push(task: WorkerTask<TIn, TOut>) {
+    const items = this.items;
+    items.push(task);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): WorkerTask<TIn, TOut> | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let best = i;
+        if (l < items.length && this.before(items[l], items[best])) {
+          best = l;
+        }
+        if (r < items.length && this.before(items[r], items[best])) {
+          best = r;
+        }
+        if (best === i) {
+          break;
+        }
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  drain(): Array<WorkerTask<TIn, TOut>> {
+    const items = this.items;
+    this.items = [];
+    return items;
+  }
+}
+
+/**
+ * A fixed-size pool of worker threads, meant to live as long as its owner.
+ * Workers receive `{ id, payload }` and reply with `{ id, result }`, `{ id, error }` or
+ * `{ id, cancelled: true }`; `{ type: "cancel", id }` asks a worker to stop a running task.
+ */
 export class WorkerPool<TIn = any, TOut = any> {
   private workers: Worker[] = [];
   private idleWorkers: Worker[] = [];
-  private queue: Array<WorkerTask<TIn, TOut>> = [];
+  private pending = new TaskHeap<TIn, TOut>();
+  // Running tasks by id; a cancelled task leaves here at once
+  private inflight = new Map<number, InflightTask<TIn, TOut>>();
+  // A worker stays busy until it replies, even after its task was cancelled
+  private busy = new Map<Worker, InflightTask<TIn, TOut>>();
+  // Workers terminated on purpose, so their exit does not spawn a second replacement
+  private retired = new Set<Worker>();
   private nextId = 1;
   private closed = false;
 
@@ -25,20 +132,25 @@ export class WorkerPool<TIn = any, TOut = any> {
   private addWorker() {
     const worker = new Worker(this.workerPath);
     const onMessage = (msg: any) => {
-      const { id, result, error } = msg || {};
-      const taskIndex = this.queue.findIndex((t) => t.id === id && (t as any)._inflight);
-      const task = taskIndex >= 0 ? this.queue[taskIndex] : undefined;
-      if (!task) {
+      const { id, result, error, cancelled } = msg || {};
+      const entry = this.busy.get(worker);
+      if (!entry || entry.task.id !== id) {
         // Unexpected; ignore
         return;
       }
-      // Remove the inflight flag and the task from queue
-      (task as any)._inflight = false;
-      this.queue.splice(taskIndex, 1);
-      if (error) {
-        task.reject(error);
-      } else {
-        task.resolve(result);
+      this.busy.delete(worker);
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      if (this.inflight.get(id) === entry) {
+        this.inflight.delete(id);
+        if (error) {
+          this.settle(entry.task, error, undefined);
+        } else if (cancelled) {
+          this.settle(entry.task, new TaskCancelledError(), undefined);
+        } else {
+          this.settle(entry.task, undefined, result);
+        }
       }
       if (!this.closed) {
         this.idleWorkers.push(worker);
@@ -46,26 +158,22 @@ export class WorkerPool<TIn = any, TOut = any> {
       }
     };
     const onError = (err: any) => {
-      // Fail the current inflight task if any
-      const inflight = this.queue.find((t) => (t as any)._inflight && (t as any)._worker === worker);
-      if (inflight) {
-        inflight.reject(err);
-        (inflight as any)._inflight = false;
-        this.queue = this.queue.filter((t) => t !== inflight);
-      }
-      // Remove this worker and replace it if pool not closed
-      this.workers = this.workers.filter((w) => w !== worker);
-      this.idleWorkers = this.idleWorkers.filter((w) => w !== worker);
-      if (!this.closed) {
-        this.addWorker();
+      // Fail the task running on this worker, if any
+      const entry = this.busy.get(worker);
+      if (entry) {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+        }
+        this.inflight.delete(entry.task.id);
+        this.settle(entry.task, err, undefined);
       }
+      this.replaceWorker(worker);
     };
     const onExit = () => {
-      this.workers = this.workers.filter((w) => w !== worker);
-      this.idleWorkers = this.idleWorkers.filter((w) => w !== worker);
-      if (!this.closed) {
-        this.addWorker();
+      if (this.retired.delete(worker)) {
+        return;
       }
+      this.replaceWorker(worker);
     };
 
     worker.on("message", onMessage);
@@ -76,37 +184,121 @@ export class WorkerPool<TIn = any, TOut = any> {
     this.idleWorkers.push(worker);
   }
 
-  run(payload: TIn): Promise<TOut> {
+  // Removes a worker that errored, exited or timed out and starts a new one in its place
+  private replaceWorker(worker: Worker) {
+    if (!this.workers.includes(worker)) {
+      return;
+    }
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idleWorkers = this.idleWorkers.filter((w) => w !== worker);
+    this.busy.delete(worker);
+    if (!this.closed) {
+      this.addWorker();
+      this.dequeue();
+    }
+  }
+
+  private settle(task: WorkerTask<TIn, TOut>, error: any, result: TOut | undefined) {
+    if (task.settled) {
+      return;
+    }
+    task.settled = true;
+    task.cleanup?.();
+    if (error !== undefined) {
+      task.reject(error);
+    } else {
+      task.resolve(result as TOut);
+    }
+  }
+
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  run(payload: TIn, options: RunOptions = {}): Promise<TOut> {
     if (this.closed) {
       return Promise.reject(new Error("WorkerPool is closed"));
     }
+    const { signal, timeoutMs, priority = 0 } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new TaskCancelledError());
+    }
     const id = this.nextId++;
     return new Promise<TOut>((resolve, reject) => {
-      const task: WorkerTask<TIn, TOut> = { id, payload, resolve, reject } as any;
-      (task as any)._inflight = false;
-      this.queue.push(task);
+      const task: WorkerTask<TIn, TOut> = {
+        id, payload, priority, timeoutMs, resolve, reject, settled: false,
+      };
+      if (signal) {
+        const onAbort = () => this.cancel(task);
+        signal.addEventListener("abort", onAbort, { once: true });
+        task.cleanup = () => signal.removeEventListener("abort", onAbort);
+      }
+      this.pending.push(task);
       this.dequeue();
     });
   }
 
+  private cancel(task: WorkerTask<TIn, TOut>) {
+    const entry = this.inflight.get(task.id);
+    if (entry) {
+      // The worker replies once it notices; until then it stays busy, and the timeout
+      // still applies in case it never gets there
+      this.inflight.delete(task.id);
+      entry.worker.postMessage({ type: "cancel", id: task.id });
+    }
+    // Queued tasks are skipped when they reach the top of the heap
+    this.settle(task, new TaskCancelledError(), undefined);
+  }
+
   private dequeue() {
-    while (this.idleWorkers.length > 0) {
-      const nextTaskIndex = this.queue.findIndex((t) => !(t as any)._inflight);
-      if (nextTaskIndex === -1) break;
-      const task = this.queue[nextTaskIndex];
+    while (this.idleWorkers.length > 0 && this.pending.size > 0) {
+      const task = this.pending.pop()!;
+      if (task.settled) {
+        continue;
+      }
       const worker = this.idleWorkers.pop()!;
-      (task as any)._inflight = true;
-      (task as any)._worker = worker;
+      const entry: InflightTask<TIn, TOut> = { task, worker };
+      const timeoutMs = task.timeoutMs;
+      if (timeoutMs && timeoutMs > 0) {
+        entry.timer = setTimeout(() => this.timeOut(entry, timeoutMs), timeoutMs);
+      }
+      this.inflight.set(task.id, entry);
+      this.busy.set(worker, entry);
       worker.postMessage({ id: task.id, payload: task.payload });
     }
   }
 
+  private timeOut(entry: InflightTask<TIn, TOut>, timeoutMs: number) {
+    if (this.busy.get(entry.worker) !== entry) {
+      return;
+    }
+    this.inflight.delete(entry.task.id);
+    this.settle(entry.task, new TaskTimeoutError(timeoutMs), undefined);
+    // The worker may be stuck in a long synchronous diff; terminating it is the only way out
+    this.retired.add(entry.worker);
+    entry.worker.terminate().catch(() => {});
+    this.replaceWorker(entry.worker);
+  }
+
   async close(): Promise<void> {
     this.closed = true;
+    for (const task of this.pending.drain()) {
+      this.settle(task, new Error("WorkerPool is closed"), undefined);
+    }
+    for (const entry of this.busy.values()) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      this.settle(entry.task, new Error("WorkerPool is closed"), undefined);
+    }
+    this.inflight.clear();
+    this.busy.clear();
     const workers = [...this.workers];
     this.workers = [];
     this.idleWorkers = [];
+    for (const w of workers) {
+      this.retired.add(w);
+    }
     await Promise.allSettled(workers.map((w) => w.terminate()));
   }
 }
-